@@ -5,7 +5,6 @@ function main() {
     width: 600,
     height: 400,
     fontSize: 48,
-    marginRatio: 0.2,
   };
   initRendering();
   const start = Date.now();
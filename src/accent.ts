@@ -0,0 +1,55 @@
+import { PathBox, PathCommand, createPathBox } from './box.ts';
+
+// Accents that stretch over their base. Paths span from `-height` to the
+// baseline like the constructed delimiters.
+
+// \vec and the arrows of \overrightarrow and \overleftarrow
+export function constructArrow(
+  width: number,
+  fontSize: number,
+  direction: 'left' | 'right'
+): PathBox {
+  const lineWidth = fontSize * 0.04;
+  const head = fontSize * 0.12;
+  const height = head * 2;
+  const y = -head;
+  const tip = direction === 'right' ? width - lineWidth : lineWidth;
+  const back = direction === 'right' ? tip - head : tip + head;
+  const commands: PathCommand[] = [
+    { op: 'M', x: lineWidth, y },
+    { op: 'L', x: width - lineWidth, y },
+    { op: 'M', x: back, y: y - head * 0.8 },
+    { op: 'L', x: tip, y },
+    { op: 'L', x: back, y: y + head * 0.8 },
+  ];
+  return createPathBox(commands, lineWidth, { width, height, depth: 0 });
+}
+
+// \widehat, which gets taller with its width up to a limit
+export function constructWideHat(width: number, fontSize: number): PathBox {
+  const lineWidth = fontSize * 0.04;
+  const height = Math.min(fontSize * 0.3, fontSize * 0.1 + width * 0.1);
+  const commands: PathCommand[] = [
+    { op: 'M', x: 0, y: -lineWidth },
+    { op: 'L', x: width / 2, y: -height + lineWidth },
+    { op: 'L', x: width, y: -lineWidth },
+  ];
+  return createPathBox(commands, lineWidth, { width, height, depth: 0 });
+}
+
+// \widetilde, a wave over the whole width
+export function constructWideTilde(width: number, fontSize: number): PathBox {
+  const lineWidth = fontSize * 0.04;
+  const height = Math.min(fontSize * 0.25, fontSize * 0.1 + width * 0.06);
+  const top = -height + lineWidth;
+  const bottom = -lineWidth;
+  const mid = (top + bottom) / 2;
+  const commands: PathCommand[] = [
+    { op: 'M', x: 0, y: bottom },
+    { op: 'Q', cx: width * 0.125, cy: top, x: width * 0.25, y: top },
+    { op: 'Q', cx: width * 0.375, cy: top, x: width * 0.5, y: mid },
+    { op: 'Q', cx: width * 0.625, cy: bottom, x: width * 0.75, y: bottom },
+    { op: 'Q', cx: width * 0.875, cy: bottom, x: width, y: top },
+  ];
+  return createPathBox(commands, lineWidth, { width, height, depth: 0 });
+}
@@ -0,0 +1,77 @@
+import { LatexNode, TokenType } from './ast.ts';
+
+export type ColumnAlign = 'l' | 'c' | 'r';
+
+export type ColumnSpec = {
+  aligns: ColumnAlign[];
+  // number of vertical rules before each column and after the last one
+  rules: number[];
+};
+
+export type ArrayRow = {
+  cells: LatexNode[][];
+  // number of \hline rules drawn above the row
+  hlinesBefore: number;
+};
+
+export type ArrayRows = {
+  rows: ArrayRow[];
+  // number of \hline rules drawn below the last row
+  hlinesAfter: number;
+};
+
+// Delimiters around the matrix environments, `.` for none.
+export const MATRIX_DELIMITERS: { [key: string]: [string, string] } = {
+  matrix: ['.', '.'],
+  smallmatrix: ['.', '.'],
+  pmatrix: ['(', ')'],
+  bmatrix: ['[', ']'],
+  Bmatrix: ['\\{', '\\}'],
+  vmatrix: ['|', '|'],
+  Vmatrix: ['\\|', '\\|'],
+};
+
+// Parse an array column specification such as `lcr|c`.
+export function parseColumnSpec(spec: string): ColumnSpec {
+  const aligns: ColumnAlign[] = [];
+  const rules = [0];
+  for (const char of spec) {
+    if (char === 'l' || char === 'c' || char === 'r') {
+      aligns.push(char);
+      rules.push(0);
+    } else if (char === '|') {
+      rules[rules.length - 1]++;
+    }
+  }
+  return { aligns, rules };
+}
+
+// Split the lines of an environment into rows of `&` separated cells.
+export function collectRows(environment: LatexNode): ArrayRows {
+  const rows: ArrayRow[] = [];
+  let hlines = 0;
+  const lines = environment.children.flatMap((paragraph) => paragraph.children);
+  for (const line of lines) {
+    let i = 0;
+    while (line.children[i]?.token?.tokenType === TokenType.Hline) {
+      hlines++;
+      i++;
+    }
+    const children = line.children.slice(i);
+    if (children.length === 0) {
+      // a trailing \\ or a line with nothing but \hline
+      continue;
+    }
+    const cells: LatexNode[][] = [[]];
+    for (const child of children) {
+      if (child.token?.tokenType === TokenType.Ampersand) {
+        cells.push([]);
+      } else {
+        cells[cells.length - 1].push(child);
+      }
+    }
+    rows.push({ cells, hlinesBefore: hlines });
+    hlines = 0;
+  }
+  return { rows, hlinesAfter: hlines };
+}
@@ -1,6 +1,8 @@
 // LaTeX AST Tokens
 export enum TokenType {
   Unknown = 'Unknown',
+  // end of the input, once only whitespace is left
+  EOF = 'EOF',
 
   // Layout
   DoubleBackslash = '\\\\',
@@ -9,12 +11,20 @@ export enum TokenType {
   Begin = '\\begin',
   End = '\\end',
 
+  // Macros
+  NewCommand = '\\newcommand',
+  RenewCommand = '\\renewcommand',
+  ProvideCommand = '\\providecommand',
+  Def = '\\def',
+
   // Number
   Number = 'Number',
   // alphabets
   Alphabet = 'Alphabet',
   // character
   Character = 'Character',
+  // the text of a brace group read as is, like the argument of \text
+  RawText = 'RawText',
   // subscripts
   Subscript = '_',
   // superscripts
@@ -30,12 +40,29 @@ export enum TokenType {
   Equals = '=',
   Equivalent = '\\equiv',
   SquareRoot = '\\sqrt',
+  Frac = '\\frac',
   Dfrac = '\\dfrac',
+  Tfrac = '\\tfrac',
+  Cfrac = '\\cfrac',
+  Genfrac = '\\genfrac',
+  Binom = '\\binom',
+  Dbinom = '\\dbinom',
+  Tbinom = '\\tbinom',
   Infinity = '\\infty',
   Integrate = '\\int',
   Summation = '\\sum',
   Product = '\\prod',
   Limit = '\\lim',
+  // Big Operators
+  DoubleIntegral = '\\iint',
+  TripleIntegral = '\\iiint',
+  ContourIntegral = '\\oint',
+  Coproduct = '\\coprod',
+  BigCup = '\\bigcup',
+  BigCap = '\\bigcap',
+  BigOplus = '\\bigoplus',
+  Limits = '\\limits',
+  NoLimits = '\\nolimits',
   // Comparison Operators
   LessThan = '<',
   GreaterThan = '>',
@@ -58,6 +85,43 @@ export enum TokenType {
   // Curly Brace
   LBrace = '{',
   RBrace = '}',
+  // Delimiters
+  Left = '\\left',
+  Right = '\\right',
+  Middle = '\\middle',
+  EscapedLBrace = '\\{',
+  EscapedRBrace = '\\}',
+  DoubleVert = '\\|',
+  Vert = '\\vert',
+  UpperVert = '\\Vert',
+  Lvert = '\\lvert',
+  Rvert = '\\rvert',
+  UpperLvert = '\\lVert',
+  UpperRvert = '\\rVert',
+  Langle = '\\langle',
+  Rangle = '\\rangle',
+  Lfloor = '\\lfloor',
+  Rfloor = '\\rfloor',
+  Lceil = '\\lceil',
+  Rceil = '\\rceil',
+  Backslash = '\\backslash',
+  // Delimiter Sizes
+  Big = '\\big',
+  BigL = '\\bigl',
+  BigR = '\\bigr',
+  BigM = '\\bigm',
+  UpperBig = '\\Big',
+  UpperBigL = '\\Bigl',
+  UpperBigR = '\\Bigr',
+  UpperBigM = '\\Bigm',
+  Bigg = '\\bigg',
+  BiggL = '\\biggl',
+  BiggR = '\\biggr',
+  BiggM = '\\biggm',
+  UpperBigg = '\\Bigg',
+  UpperBiggL = '\\Biggl',
+  UpperBiggR = '\\Biggr',
+  UpperBiggM = '\\Biggm',
   // Comma, Period
   Comma = ',',
   Period = '.',
@@ -91,6 +155,23 @@ export enum TokenType {
   Chi = '\\chi',
   Psi = '\\psi',
   Omega = '\\omega',
+  Varepsilon = '\\varepsilon',
+  Vartheta = '\\vartheta',
+  Varpi = '\\varpi',
+  Varrho = '\\varrho',
+  Varsigma = '\\varsigma',
+  Varphi = '\\varphi',
+  UpperGamma = '\\Gamma',
+  UpperDelta = '\\Delta',
+  UpperTheta = '\\Theta',
+  UpperLambda = '\\Lambda',
+  UpperXi = '\\Xi',
+  UpperPi = '\\Pi',
+  UpperSigma = '\\Sigma',
+  UpperUpsilon = '\\Upsilon',
+  UpperPhi = '\\Phi',
+  UpperPsi = '\\Psi',
+  UpperOmega = '\\Omega',
   // Operators
   Sin = '\\sin',
   Cos = '\\cos',
@@ -101,11 +182,71 @@ export enum TokenType {
   MilliLiter = 'mL',
   Ell = '\\ell',
   At = '@',
+  // Accents
+  Hat = '\\hat',
+  Bar = '\\bar',
+  Vec = '\\vec',
+  Dot = '\\dot',
+  Ddot = '\\ddot',
+  Tilde = '\\tilde',
+  Check = '\\check',
+  Breve = '\\breve',
+  Acute = '\\acute',
+  Grave = '\\grave',
+  WideHat = '\\widehat',
+  WideTilde = '\\widetilde',
+  Overline = '\\overline',
+  Underline = '\\underline',
+  OverRightArrow = '\\overrightarrow',
+  OverLeftArrow = '\\overleftarrow',
+  // Fonts
+  Text = '\\text',
+  MathRm = '\\mathrm',
+  MathIt = '\\mathit',
+  MathBf = '\\mathbf',
+  BoldSymbol = '\\boldsymbol',
+  MathBb = '\\mathbb',
+  MathCal = '\\mathcal',
+  MathFrak = '\\mathfrak',
+  MathScr = '\\mathscr',
+  MathSf = '\\mathsf',
+  MathTt = '\\mathtt',
+  // Spacing
+  ThinSpace = '\\,',
+  MediumSpace = '\\:',
+  MediumSpaceAlt = '\\>',
+  ThickSpace = '\\;',
+  NegativeThinSpace = '\\!',
+  ControlSpace = '\\ ',
+  Thinspace = '\\thinspace',
+  Medspace = '\\medspace',
+  Thickspace = '\\thickspace',
+  Negthinspace = '\\negthinspace',
+  Negmedspace = '\\negmedspace',
+  Negthickspace = '\\negthickspace',
+  Enspace = '\\enspace',
+  Quad = '\\quad',
+  Qquad = '\\qquad',
+  Hspace = '\\hspace',
+  // Colours
+  Color = '\\color',
+  TextColor = '\\textcolor',
+  ColorBox = '\\colorbox',
+  FColorBox = '\\fcolorbox',
+  // Arrays
+  Ampersand = '&',
+  Hline = '\\hline',
 }
 
 export type Token = {
   token: string;
   tokenType: TokenType;
+  // offsets of the token in the source, the end being exclusive
+  start?: number;
+  end?: number;
+  // whitespace follows the token in the source, which the text of a raw
+  // group rebuilt from tokens keeps
+  spaceAfter?: boolean;
 };
 
 export enum NodeType {
@@ -115,6 +256,11 @@ export enum NodeType {
   Line = 'Line',
   Plain = 'Plain',
 
+  // \left ... \right, the delimiters are the first and the last child
+  LeftRight = 'LeftRight',
+  // input that failed to parse in tolerant mode, kept to be shown as is
+  Error = 'Error',
+
   PGroup = 'Parenthesis',
   BGroup = 'Bracket',
   CBGroup = 'CurlyBrace',
@@ -126,6 +272,12 @@ export type LatexNode = {
   children: LatexNode[];
   subscript?: LatexNode;
   superscript?: LatexNode;
+  // \limits (true) or \nolimits (false) following a big operator
+  limits?: boolean;
+  // bracketed optional arguments such as the index of \sqrt[3]{x}
+  optionalArgs?: LatexNode[];
+  // arguments kept as source text, like the column specification of an array
+  rawArgs?: string[];
 };
 
 export const createNode = (
@@ -163,3 +315,14 @@ export const createParagraphNode = (): LatexNode => {
 export const createPlainNode = (token: Token): LatexNode => {
   return createNode(NodeType.Plain, [], token);
 };
+
+// The source of a node without spaces, for simple arguments like the
+// thickness of \genfrac.
+export function nodeText(node: LatexNode | undefined): string {
+  if (!node) {
+    return '';
+  }
+  const text =
+    node.token && node.nodeType === NodeType.Plain ? node.token.token : '';
+  return text + node.children.map((child) => nodeText(child)).join('');
+}
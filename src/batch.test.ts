@@ -0,0 +1,44 @@
+import { ManifestError, manifestFormatOf, parseManifest } from './batch.ts';
+
+describe('manifestFormatOf', () => {
+  test('follows the extension', () => {
+    expect(manifestFormatOf('formulas.JSON')).toBe('json');
+    expect(manifestFormatOf('formulas.csv')).toBe('csv');
+    expect(manifestFormatOf('formulas.txt')).toBe('lines');
+  });
+});
+
+describe('parseManifest', () => {
+  test('reads a JSON array', () => {
+    const text = '[{"latex": "x^2", "output": "x2.png"}]';
+    expect(parseManifest(text, 'json')).toEqual([
+      { latex: 'x^2', output: 'x2.png' },
+    ]);
+    expect(() => parseManifest('[{"latex": 1}]', 'json')).toThrow(
+      ManifestError
+    );
+  });
+
+  test('reads CSV with quoted fields and an optional header', () => {
+    const text = 'latex,output\n"\\frac{a,b}{""c""}",a.png\r\n\nx,x.svg\n';
+    expect(parseManifest(text, 'csv')).toEqual([
+      { latex: '\\frac{a,b}{"c"}', output: 'a.png' },
+      { latex: 'x', output: 'x.svg' },
+    ]);
+    expect(() => parseManifest('x,y\nz', 'csv')).toThrow(
+      'Expected the two columns latex,output at line 2'
+    );
+    expect(() => parseManifest('"x,y', 'csv')).toThrow('Unclosed quote');
+  });
+
+  test('reads lines of output and formula', () => {
+    const text = '# comment\nx2.png\tx^2\n\ny.svg\ty = 1\n';
+    expect(parseManifest(text, 'lines')).toEqual([
+      { output: 'x2.png', latex: 'x^2' },
+      { output: 'y.svg', latex: 'y = 1' },
+    ]);
+    expect(() => parseManifest('x.png x', 'lines')).toThrow(
+      'Expected output<TAB>latex at line 1'
+    );
+  });
+});
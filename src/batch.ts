@@ -0,0 +1,165 @@
+import path from 'path';
+
+// A formula of a batch and the file it's rendered to.
+export type BatchEntry = {
+  latex: string;
+  output: string;
+};
+
+export type ManifestFormat = 'json' | 'csv' | 'lines';
+
+// An error in a manifest, located by its 1-based line where known.
+export class ManifestError extends Error {
+  constructor(message: string, readonly line: number | null = null) {
+    super(line === null ? message : `${message} at line ${line}`);
+    this.name = 'ManifestError';
+  }
+}
+
+// The format of a manifest file by its extension, line-delimited unless it
+// ends with .json or .csv.
+export function manifestFormatOf(file: string): ManifestFormat {
+  switch (path.extname(file).toLowerCase()) {
+    case '.json':
+      return 'json';
+    case '.csv':
+      return 'csv';
+    default:
+      return 'lines';
+  }
+}
+
+// Parse a manifest of formulas and output paths:
+//   json:  [{ "latex": "x^2", "output": "x2.png" }, ...]
+//   csv:   latex,output rows, optionally below a `latex,output` header
+//   lines: output<TAB>latex, skipping empty lines and lines starting with #
+export function parseManifest(
+  text: string,
+  format: ManifestFormat
+): BatchEntry[] {
+  switch (format) {
+    case 'json':
+      return parseJsonManifest(text);
+    case 'csv':
+      return parseCsvManifest(text);
+    case 'lines':
+      return parseLineManifest(text);
+  }
+}
+
+function parseJsonManifest(text: string): BatchEntry[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new ManifestError(`Invalid JSON: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(json)) {
+    throw new ManifestError('Expected an array of formulas');
+  }
+  return json.map((entry, i) => {
+    const { latex, output } = entry ?? {};
+    if (typeof latex !== 'string' || typeof output !== 'string') {
+      throw new ManifestError(
+        `Entry ${i + 1} needs the strings "latex" and "output"`
+      );
+    }
+    return { latex, output };
+  });
+}
+
+function parseCsvManifest(text: string): BatchEntry[] {
+  const records = parseCsv(text);
+  const [first] = records;
+  const hasHeader =
+    first && first.fields[0] === 'latex' && first.fields[1] === 'output';
+  return records.slice(hasHeader ? 1 : 0).map(({ fields, line }) => {
+    if (fields.length !== 2) {
+      throw new ManifestError('Expected the two columns latex,output', line);
+    }
+    const [latex, output] = fields;
+    return { latex, output };
+  });
+}
+
+function parseLineManifest(text: string): BatchEntry[] {
+  const entries: BatchEntry[] = [];
+  text.split(/\r?\n/).forEach((row, i) => {
+    if (row.trim() === '' || row.startsWith('#')) {
+      return;
+    }
+    const tab = row.indexOf('\t');
+    if (tab < 0) {
+      throw new ManifestError('Expected output<TAB>latex', i + 1);
+    }
+    entries.push({ output: row.slice(0, tab), latex: row.slice(tab + 1) });
+  });
+  return entries;
+}
+
+type CsvRecord = {
+  fields: string[];
+  // line the record starts on
+  line: number;
+};
+
+// RFC 4180 CSV, where quoted fields may hold commas, newlines and "".
+// Empty lines are skipped.
+function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let line = 1;
+  let recordLine = 1;
+  let isQuoted = false;
+  let i = 0;
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== '') {
+      records.push({ fields, line: recordLine });
+    }
+    fields = [];
+    field = '';
+  };
+  while (i < text.length) {
+    const char = text[i];
+    if (isQuoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        isQuoted = false;
+      } else {
+        field += char;
+        if (char === '\n') {
+          line++;
+        }
+      }
+      i++;
+      continue;
+    }
+    if (char === '"' && field === '') {
+      isQuoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+  if (isQuoted) {
+    throw new ManifestError('Unclosed quote', recordLine);
+  }
+  endRecord();
+  return records;
+}
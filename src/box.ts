@@ -0,0 +1,194 @@
+// Layout Boxes
+//
+// Every box is measured from its origin, which sits on the baseline at the
+// left edge. `height` extends above the baseline and `depth` below it.
+// Coordinates of children and path points use the canvas orientation
+// (y grows downwards).
+export enum BoxType {
+  HBox = 'HBox',
+  Glyph = 'Glyph',
+  Rule = 'Rule',
+  Path = 'Path',
+  Kern = 'Kern',
+}
+
+export type BoxMetrics = {
+  width: number;
+  height: number;
+  depth: number;
+};
+
+export type PlacedBox = {
+  box: Box;
+  // offset of the child's origin from the parent's origin
+  x: number;
+  y: number;
+};
+
+export type HBox = BoxMetrics & {
+  boxType: BoxType.HBox;
+  children: PlacedBox[];
+};
+
+export type GlyphBox = BoxMetrics & {
+  boxType: BoxType.Glyph;
+  text: string;
+  fontFamily: string;
+  fontStyle: string;
+  fontSize: number;
+  // fill colour, the foreground colour when omitted
+  color?: string;
+};
+
+export type RuleBox = BoxMetrics & {
+  boxType: BoxType.Rule;
+  color?: string;
+};
+
+export type PathCommand =
+  | { op: 'M' | 'L'; x: number; y: number }
+  // quadratic Bézier curve with the control point (cx, cy)
+  | { op: 'Q'; cx: number; cy: number; x: number; y: number }
+  | { op: 'Z' };
+
+export type PathBox = BoxMetrics & {
+  boxType: BoxType.Path;
+  commands: PathCommand[];
+  lineWidth: number;
+  // stroke colour
+  color?: string;
+};
+
+export type KernBox = BoxMetrics & {
+  boxType: BoxType.Kern;
+};
+
+export type Box = HBox | GlyphBox | RuleBox | PathBox | KernBox;
+
+// Wrap already placed children into a box whose metrics cover all of them.
+export const createHBox = (children: PlacedBox[]): HBox => {
+  let width = 0;
+  let height = 0;
+  let depth = 0;
+  for (const child of children) {
+    width = Math.max(width, child.x + child.box.width);
+    height = Math.max(height, child.box.height - child.y);
+    depth = Math.max(depth, child.box.depth + child.y);
+  }
+  return {
+    boxType: BoxType.HBox,
+    width,
+    height,
+    depth,
+    children,
+  };
+};
+
+// Lay boxes out from left to right on a common baseline.
+export const createHList = (boxes: Box[]): HBox => {
+  let x = 0;
+  const children: PlacedBox[] = [];
+  for (const box of boxes) {
+    children.push({ box, x, y: 0 });
+    x += box.width;
+  }
+  const hbox = createHBox(children);
+  hbox.width = x;
+  return hbox;
+};
+
+// Stack boxes from top to bottom. `gaps[i]` is the space inserted between
+// the bottom of `boxes[i]` and the top of `boxes[i + 1]`. The baseline of the
+// resulting box is the baseline of the first row.
+export const createVList = (boxes: Box[], gaps: number[] = []): HBox => {
+  let y = 0;
+  const children: PlacedBox[] = [];
+  boxes.forEach((box, i) => {
+    if (i > 0) {
+      y += boxes[i - 1].depth + (gaps[i - 1] || 0) + box.height;
+    }
+    children.push({ box, x: 0, y });
+  });
+  return createHBox(children);
+};
+
+// Move a box so that its vertical centre lies `axis` above the baseline.
+export const centerOnAxis = (box: Box, axis: number): HBox => {
+  const shift = (box.height - box.depth) / 2 - axis;
+  return createHBox([{ box, x: 0, y: shift }]);
+};
+
+// Width of a box without the kerns at its right end, like the margin after
+// a symbol.
+export const trimmedWidth = (box: Box): number => {
+  if (box.boxType === BoxType.Kern) {
+    return 0;
+  }
+  if (box.boxType !== BoxType.HBox) {
+    return box.width;
+  }
+  let width = 0;
+  for (const child of box.children) {
+    width = Math.max(width, child.x + trimmedWidth(child.box));
+  }
+  return Math.min(box.width, width);
+};
+
+// Give the glyphs, rules and paths in `box` that have no colour yet the
+// colour `color`, so inner colours take precedence.
+export const paintBox = (box: Box, color: string) => {
+  switch (box.boxType) {
+    case BoxType.HBox:
+      for (const child of box.children) {
+        paintBox(child.box, color);
+      }
+      break;
+    case BoxType.Glyph:
+    case BoxType.Rule:
+    case BoxType.Path:
+      box.color ??= color;
+      break;
+  }
+};
+
+export const createGlyphBox = (
+  text: string,
+  fontFamily: string,
+  fontStyle: string,
+  fontSize: number,
+  metrics: BoxMetrics
+): GlyphBox => {
+  return {
+    boxType: BoxType.Glyph,
+    text,
+    fontFamily,
+    fontStyle,
+    fontSize,
+    ...metrics,
+  };
+};
+
+export const createRuleBox = (
+  width: number,
+  height: number,
+  depth: number = 0
+): RuleBox => {
+  return { boxType: BoxType.Rule, width, height, depth };
+};
+
+export const createPathBox = (
+  commands: PathCommand[],
+  lineWidth: number,
+  metrics: BoxMetrics
+): PathBox => {
+  return { boxType: BoxType.Path, commands, lineWidth, ...metrics };
+};
+
+export const createKern = (width: number): KernBox => {
+  return { boxType: BoxType.Kern, width, height: 0, depth: 0 };
+};
+
+// An invisible box that only contributes height and depth.
+export const createStrut = (height: number, depth: number): KernBox => {
+  return { boxType: BoxType.Kern, width: 0, height, depth };
+};
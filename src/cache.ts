@@ -0,0 +1,38 @@
+// A map that holds at most `capacity` entries and drops the least recently
+// used one to make room for a new entry.
+export class LruCache<K, V> {
+  // Map keeps insertion order, so the first key is the least recently used
+  private entries = new Map<K, V>();
+
+  constructor(readonly capacity: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: K): V | undefined {
+    if (!this.entries.has(key)) {
+      return undefined;
+    }
+    const value = this.entries.get(key)!;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  set(key: K, value: V) {
+    this.entries.delete(key);
+    if (this.capacity <= 0) {
+      return;
+    }
+    this.entries.set(key, value);
+    if (this.entries.size > this.capacity) {
+      const oldest = this.entries.keys().next().value as K;
+      this.entries.delete(oldest);
+    }
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,152 @@
+import { PathBox, PathCommand, createPathBox } from './box.ts';
+
+// Characters the KaTeX_Size fonts have larger variants of.
+export const sizeFontDelimiters = '()[]{}⟨⟩⌊⌋⌈⌉/\\';
+
+// Total heights of \big, \Big, \bigg and \Bigg in em.
+export const BIG_DELIMITER_HEIGHTS = [1.2, 1.8, 2.4, 3.0];
+
+const MIRRORED_DELIMITERS: { [key: string]: string } = {
+  ')': '(',
+  ']': '[',
+  '}': '{',
+  '⟩': '⟨',
+  '⌋': '⌊',
+  '⌉': '⌈',
+  '\\': '/',
+};
+
+const DELIMITER_WIDTHS: { [key: string]: number } = {
+  '(': 0.4,
+  '[': 0.35,
+  '{': 0.45,
+  '⟨': 0.4,
+  '⌊': 0.35,
+  '⌈': 0.35,
+  '/': 0.5,
+  '|': 0.25,
+  '∥': 0.4,
+};
+
+// Draw a delimiter of any height as strokes. Used when even the largest
+// glyph of the size fonts is too short. The path spans from `-height` to the
+// baseline.
+export function constructDelimiter(
+  delimiter: string,
+  height: number,
+  fontSize: number
+): PathBox {
+  const base = MIRRORED_DELIMITERS[delimiter] || delimiter;
+  const width = fontSize * (DELIMITER_WIDTHS[base] || 0.4);
+  const lineWidth = fontSize * 0.05;
+  const p = fontSize * 0.08;
+  const top = -height + lineWidth / 2;
+  const bottom = -lineWidth / 2;
+  const mid = (top + bottom) / 2;
+  const right = width - p;
+  const center = width / 2;
+
+  let commands: PathCommand[];
+  switch (base) {
+    case '(':
+      commands = [
+        { op: 'M', x: right, y: top },
+        { op: 'Q', cx: 3 * p - right, cy: mid, x: right, y: bottom },
+      ];
+      break;
+    case '[':
+      commands = [
+        { op: 'M', x: right, y: top },
+        { op: 'L', x: p, y: top },
+        { op: 'L', x: p, y: bottom },
+        { op: 'L', x: right, y: bottom },
+      ];
+      break;
+    case '{': {
+      const r = Math.min(center - p, height / 8);
+      commands = [
+        { op: 'M', x: right, y: top },
+        { op: 'Q', cx: center, cy: top, x: center, y: top + r },
+        { op: 'L', x: center, y: mid - r },
+        { op: 'Q', cx: center, cy: mid, x: p, y: mid },
+        { op: 'Q', cx: center, cy: mid, x: center, y: mid + r },
+        { op: 'L', x: center, y: bottom - r },
+        { op: 'Q', cx: center, cy: bottom, x: right, y: bottom },
+      ];
+      break;
+    }
+    case '⟨':
+      commands = [
+        { op: 'M', x: right, y: top },
+        { op: 'L', x: p, y: mid },
+        { op: 'L', x: right, y: bottom },
+      ];
+      break;
+    case '⌊':
+      commands = [
+        { op: 'M', x: p, y: top },
+        { op: 'L', x: p, y: bottom },
+        { op: 'L', x: right, y: bottom },
+      ];
+      break;
+    case '⌈':
+      commands = [
+        { op: 'M', x: p, y: bottom },
+        { op: 'L', x: p, y: top },
+        { op: 'L', x: right, y: top },
+      ];
+      break;
+    case '/':
+      commands = [
+        { op: 'M', x: right, y: top },
+        { op: 'L', x: p, y: bottom },
+      ];
+      break;
+    case '∥':
+      commands = [
+        { op: 'M', x: width / 3, y: top },
+        { op: 'L', x: width / 3, y: bottom },
+        { op: 'M', x: (width * 2) / 3, y: top },
+        { op: 'L', x: (width * 2) / 3, y: bottom },
+      ];
+      break;
+    default:
+      commands = [
+        { op: 'M', x: center, y: top },
+        { op: 'L', x: center, y: bottom },
+      ];
+  }
+  if (base !== delimiter) {
+    commands = commands.map((command) => mirrorCommand(command, width));
+  }
+  return createPathBox(commands, lineWidth, { width, height, depth: 0 });
+}
+
+// Draw a radical sign of any height, for content taller than the \sqrt
+// glyph of KaTeX_Size4. The path spans from `-height` to the baseline and its
+// top right corner is where the vinculum starts.
+export function constructRadical(height: number, fontSize: number): PathBox {
+  const width = fontSize * 1.05;
+  const lineWidth = fontSize * 0.04;
+  const top = -height + lineWidth / 2;
+  const bottom = -lineWidth / 2;
+  const hook = Math.min(fontSize * 0.5, height / 3);
+  const commands: PathCommand[] = [
+    { op: 'M', x: fontSize * 0.1, y: bottom - hook * 0.8 },
+    { op: 'L', x: fontSize * 0.25, y: bottom - hook },
+    { op: 'L', x: fontSize * 0.55, y: bottom },
+    { op: 'L', x: width - lineWidth / 2, y: top },
+  ];
+  return createPathBox(commands, lineWidth, { width, height, depth: 0 });
+}
+
+function mirrorCommand(command: PathCommand, width: number): PathCommand {
+  switch (command.op) {
+    case 'Z':
+      return command;
+    case 'Q':
+      return { ...command, cx: width - command.cx, x: width - command.x };
+    default:
+      return { ...command, x: width - command.x };
+  }
+}
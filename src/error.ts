@@ -0,0 +1,38 @@
+import { Token, TokenType } from './ast.ts';
+
+// An error in the LaTeX source, located by the offending token.
+export class ParseError extends Error {
+  // 1-based position of the start of the token
+  readonly line: number;
+  readonly column: number;
+  readonly start: number;
+  readonly end: number;
+  // description of the found token, like `'}'` or `end of input`
+  readonly found: string;
+
+  constructor(
+    readonly description: string,
+    readonly token: Token,
+    input: string,
+    // what the parser expected instead, like `'{'`
+    readonly expected: string | null = null
+  ) {
+    const start = token.start ?? input.length;
+    const { line, column } = locate(input, start);
+    const found =
+      token.tokenType === TokenType.EOF ? 'end of input' : `'${token.token}'`;
+    const detail = expected ? `: expected ${expected} but found ${found}` : '';
+    super(`${description}${detail} at line ${line}, column ${column}`);
+    this.name = 'ParseError';
+    this.line = line;
+    this.column = column;
+    this.start = start;
+    this.end = token.end ?? start;
+    this.found = found;
+  }
+}
+
+function locate(input: string, offset: number) {
+  const lines = input.slice(0, offset).split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
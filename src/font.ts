@@ -1,4 +1,9 @@
 import { createCanvas, Image, CanvasRenderingContext2D } from 'canvas';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { LruCache } from './cache.ts';
+import { readCharacterSet } from './opentype.ts';
+import { RenderOptions } from './options.ts';
 
 export type TextMetrics = {
   ascent: number;
@@ -6,28 +11,222 @@ export type TextMetrics = {
   baseline: number;
   height: number;
   width: number;
+  // how far the ink reaches right of the advance width
+  italicCorrection: number;
 };
 
+export type FontFile = {
+  path: string;
+  family: string;
+  style?: string;
+};
+
+// The font family options a font set maps its families onto.
+export type FontFamilies = Partial<
+  Pick<
+    RenderOptions,
+    | 'mainFontFamily'
+    | 'mathFontFamily'
+    | 'amsFontFamily'
+    | 'greekFontFamily'
+    | 'sizeFontFamilies'
+    | 'alphabetFontFamilies'
+    | 'fallbackFontFamilies'
+  >
+>;
+
+// Font files to register and the roles of their families. Families a set
+// leaves out keep the fonts of the options.
+export type FontSet = {
+  files: FontFile[];
+  families: FontFamilies;
+};
+
+// the fonts shipped with the package, found from this file rather than the
+// working directory so they load wherever the package is used from
+const FONT_DIRECTORY = fileURLToPath(new URL('../fonts/', import.meta.url));
+
+function bundledFont(file: string, family: string, style?: string): FontFile {
+  return { path: path.join(FONT_DIRECTORY, file), family, style };
+}
+
+const katexFontSet: FontSet = {
+  files: [
+    bundledFont('KaTeX_AMS-Regular.ttf', 'KaTeX_AMS'),
+    bundledFont('KaTeX_Main-Regular.ttf', 'KaTeX_Main'),
+    bundledFont('KaTeX_Math-Italic.ttf', 'KaTeX_Math', 'italic'),
+    // math alphabets, each under a family of its own
+    bundledFont('KaTeX_Main-Bold.ttf', 'KaTeX_MainBold'),
+    bundledFont('KaTeX_Main-Italic.ttf', 'KaTeX_MainItalic'),
+    bundledFont('KaTeX_Math-BoldItalic.ttf', 'KaTeX_MathBoldItalic'),
+    bundledFont('KaTeX_Caligraphic-Regular.ttf', 'KaTeX_Caligraphic'),
+    bundledFont('KaTeX_Fraktur-Regular.ttf', 'KaTeX_Fraktur'),
+    bundledFont('KaTeX_Script-Regular.ttf', 'KaTeX_Script'),
+    bundledFont('KaTeX_SansSerif-Regular.ttf', 'KaTeX_SansSerif'),
+    bundledFont('KaTeX_Typewriter-Regular.ttf', 'KaTeX_Typewriter'),
+    bundledFont('KaTeX_Size1-Regular.ttf', 'KaTeX_Size1'),
+    bundledFont('KaTeX_Size2-Regular.ttf', 'KaTeX_Size2'),
+    bundledFont('KaTeX_Size3-Regular.ttf', 'KaTeX_Size3'),
+    bundledFont('KaTeX_Size4-Regular.ttf', 'KaTeX_Size4'),
+  ],
+  families: {
+    mainFontFamily: 'KaTeX_Main',
+    mathFontFamily: 'KaTeX_Math',
+    amsFontFamily: 'KaTeX_AMS',
+    greekFontFamily: 'KaTeX_Math',
+  },
+};
+
+// the default: Latin Modern math italic with the KaTeX fonts for the rest.
+// It has no lowercase Greek, which comes from KaTeX_Math.
+const latinModernFontSet: FontSet = {
+  files: [bundledFont('lmroman9-italic.otf', 'LatinModern_Italic', 'italic')],
+  families: {
+    mathFontFamily: 'LatinModern_Italic',
+    greekFontFamily: 'KaTeX_Math',
+  },
+};
+
+const fontSets = new Map<string, FontSet>([
+  ['katex', katexFontSet],
+  ['latin-modern', latinModernFontSet],
+]);
+
+// Add a font set under `name`, or replace the one of that name. Its files
+// are registered by the next `initRendering`.
+export function registerFontSet(name: string, fontSet: FontSet) {
+  fontSets.set(name, fontSet);
+  characterSets.clear();
+}
+
+export function fontSetNames(): string[] {
+  return [...fontSets.keys()];
+}
+
+export function fontSetOf(name: string): FontSet {
+  const fontSet = fontSets.get(name);
+  if (!fontSet) {
+    throw new Error(`Unknown font set: ${name}`);
+  }
+  return fontSet;
+}
+
+// The files of all the font sets, so a render can pick any set without
+// registering fonts again.
+export function registeredFontFiles(): FontFile[] {
+  return [...fontSets.values()].flatMap((fontSet) => fontSet.files);
+}
+
+// The options with the families of `options.fontSet` in place of theirs.
+export function withFontSet(options: RenderOptions): RenderOptions {
+  if (options.fontSet === null) {
+    return options;
+  }
+  return { ...options, ...fontSetOf(options.fontSet).families };
+}
+
+// Code points of each family read from its files, or null where a file
+// can't be read or the family isn't one of the font sets, like a system font.
+const characterSets = new Map<string, Set<number> | null>();
+
+function characterSetOf(family: string): Set<number> | null {
+  if (characterSets.has(family)) {
+    return characterSets.get(family)!;
+  }
+  const files = registeredFontFiles().filter(
+    (fontFile) => fontFile.family === family
+  );
+  let chars: Set<number> | null = files.length > 0 ? new Set() : null;
+  for (const fontFile of files) {
+    const fileChars = readCharacterSet(fontFile.path);
+    if (!fileChars || !chars) {
+      chars = null;
+      break;
+    }
+    fileChars.forEach((char) => chars!.add(char));
+  }
+  characterSets.set(family, chars);
+  return chars;
+}
+
+// Whether `family` has a glyph for each character of `text`. Families whose
+// characters are unknown are trusted to have them.
+export function hasGlyphs(family: string, text: string): boolean {
+  const chars = characterSetOf(family);
+  if (!chars) {
+    return true;
+  }
+  for (const char of text) {
+    if (!chars.has(char.codePointAt(0)!)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Metrics are measured once per font and text at this size and scaled to
+// the size asked for, so every size of a glyph shares one measurement.
+const REFERENCE_FONT_SIZE = 100;
+// texts kept in the metrics cache, enough for the glyphs of all the fonts
+// and the words of \text across many renders
+const METRICS_CACHE_SIZE = 10000;
+
+// Canvas measures the glyphs rather than a bundled metrics table, because
+// the fonts are options and may be any registered font.
+let measureContext: CanvasRenderingContext2D | null = null;
+const metricsCache = new LruCache<string, TextMetrics>(METRICS_CACHE_SIZE);
+
+// Forget the measured metrics, e.g. after registering other fonts. Canvas
+// only sees fonts registered before a context was created.
+export function clearTextMetrics() {
+  measureContext = null;
+  metricsCache.clear();
+}
+
 export function measureText(
   text: string,
   font: string,
   fontSize: number
 ): TextMetrics {
-  const canvas = createCanvas(0, 0);
-  const ctx = canvas.getContext('2d');
-  if (!ctx) {
-    throw new Error('Could not get 2d context');
+  const key = `${font}\n${text}`;
+  let metrics = metricsCache.get(key);
+  if (!metrics) {
+    metrics = measureReference(text, font);
+    metricsCache.set(key, metrics);
+  }
+  const scale = fontSize / REFERENCE_FONT_SIZE;
+  return {
+    ascent: metrics.ascent * scale,
+    descent: metrics.descent * scale,
+    baseline: metrics.baseline * scale,
+    height: metrics.height * scale,
+    width: metrics.width * scale,
+    italicCorrection: metrics.italicCorrection * scale,
+  };
+}
+
+function measureReference(text: string, font: string): TextMetrics {
+  if (!measureContext) {
+    measureContext = createCanvas(0, 0).getContext('2d');
+    if (!measureContext) {
+      throw new Error('Could not get 2d context');
+    }
   }
-  ctx.font = `${fontSize}px ${font}`;
+  const ctx = measureContext;
+  ctx.font = `${REFERENCE_FONT_SIZE}px ${font}`;
   const metrics = ctx.measureText(text);
   const ascent = metrics.actualBoundingBoxAscent;
   const descent = metrics.actualBoundingBoxDescent;
-  const baseline = metrics.actualBoundingBoxAscent;
   return {
     ascent: ascent,
     descent: descent,
-    baseline: baseline,
+    baseline: ascent,
     height: ascent + descent,
     width: metrics.width,
+    // ink sticking out past the advance width, like the slant of an f
+    italicCorrection: Math.max(
+      0,
+      metrics.actualBoundingBoxRight - metrics.width
+    ),
   };
 }
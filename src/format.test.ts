@@ -0,0 +1,83 @@
+import { LatexNode, NodeType } from './ast.ts';
+import { serializeLatex } from './format.ts';
+import { parseLatex } from './parser.ts';
+
+// The AST without source positions, and with a group of a single node the
+// same as that node, since the serializer adds and drops such braces.
+function shape(node: LatexNode): object {
+  if (node.nodeType === NodeType.CBGroup && node.children.length === 1) {
+    const child = node.children[0];
+    if (!node.subscript && !node.superscript && !child.subscript) {
+      return shape(child);
+    }
+  }
+  return {
+    nodeType: node.nodeType,
+    token: node.token && {
+      token: node.token.token,
+      tokenType: node.token.tokenType,
+    },
+    children: node.children.map(shape),
+    subscript: node.subscript && shape(node.subscript),
+    superscript: node.superscript && shape(node.superscript),
+    limits: node.limits,
+    optionalArgs: node.optionalArgs?.map(shape),
+    rawArgs: node.rawArgs,
+  };
+}
+
+function expectRoundTrip(latex: string) {
+  const ast = parseLatex(latex);
+  const serialized = serializeLatex(ast);
+  expect(shape(parseLatex(serialized))).toEqual(shape(ast));
+  // the canonical form is a fixed point
+  expect(serializeLatex(parseLatex(serialized))).toBe(serialized);
+}
+
+describe('serializeLatex round trip', () => {
+  test.each([
+    '\\frac{a+1}{b}',
+    '\\tfrac{1}{2} + \\frac a b',
+    '\\frac12 + \\tfrac ab',
+    '\\dfrac{1}{\\cfrac{2}{3}}',
+    '\\binom{n}{k} + \\dbinom{n}{2}',
+    '\\genfrac(]{0pt}{1}{a}{b}',
+    '\\sqrt[3]{x} + \\sqrt{2}',
+  ])('fractions and roots: %s', expectRoundTrip);
+
+  test.each([
+    'x^2 + y_1',
+    'x_{i,j}^{2n}',
+    'e^{-x^2}',
+    '\\sum_{i=1}^{n} i',
+    '\\lim\\limits_{x = 0} f(x)',
+    "f'(x)",
+  ])('scripts: %s', expectRoundTrip);
+
+  test.each([
+    '\\begin{matrix}a & b \\\\ c & d\\end{matrix}',
+    '\\begin{pmatrix}1 & 0 \\\\ 0 & 1\\end{pmatrix}',
+    '\\begin{array}{c|l}x & y \\\\ 1 & 2\\end{array}',
+    '\\begin{cases}1 & x > 0 \\\\ 0 & x < 0\\end{cases}',
+    '\\begin{align}a &= b + c \\\\ &= d\\end{align}',
+  ])('environments: %s', expectRoundTrip);
+
+  test.each([
+    '\\newcommand{\\R}{\\mathbb{R}} x = \\R',
+    '\\newcommand{\\pair}[2]{(#1, #2)} \\pair{a}{b}',
+    '\\def\\sq#1{#1^2} \\sq{x} + \\sq y',
+    '\\newcommand{\\st}{\\text{ such that }} x \\st y',
+  ])('macros: %s', expectRoundTrip);
+
+  test.each([
+    '\\color{red} x + y',
+    '\\textcolor{blue}{a} + b',
+    '\\colorbox{yellow}{text}',
+    '\\fcolorbox{red}{white}{boxed}',
+  ])('colours: %s', expectRoundTrip);
+
+  test('macros are expanded', () => {
+    const ast = parseLatex('\\R', { macros: { '\\R': '\\mathbb{R}' } });
+    expect(serializeLatex(ast)).toBe('\\mathbb{R}');
+  });
+});
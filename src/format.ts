@@ -0,0 +1,186 @@
+import { collectRows } from './array.ts';
+import { LatexNode, NodeType, TokenType } from './ast.ts';
+import { DefaultParseOptions, ParseOptions, parseLatex } from './parser.ts';
+import { AtomClass, classifyAtoms } from './spacing.ts';
+import { bigDelimiterSizes } from './symbols.ts';
+
+// Tokens written differently from how the lexer may have read them.
+const CANONICAL_TOKENS: { [key: string]: string } = {
+  // `%` starts a comment in LaTeX
+  [TokenType.Percent]: '\\%',
+};
+
+// Serialize the AST back into LaTeX in a canonical form: binary operators
+// and relations surrounded by one space, a space after punctuation, scripts
+// as `_` before `^` with braces unless they are a single character, and all
+// arguments of commands braced. Macros come out expanded.
+export function serializeLatex(document: LatexNode): string {
+  const environment = document.children[0];
+  return environment.children
+    .map((paragraph) =>
+      paragraph.children
+        .map((line) => serializeList(line.children))
+        .join(' \\\\ ')
+    )
+    .join('\n\n');
+}
+
+// Parse and serialize `latex`, e.g. to compare formulas written differently.
+export function formatLatex(
+  latex: string,
+  options: Partial<ParseOptions> = {}
+): string {
+  const opts: ParseOptions = { ...DefaultParseOptions, ...options };
+  return serializeLatex(parseLatex(latex, opts));
+}
+
+function serializeList(nodes: LatexNode[]): string {
+  const atoms = classifyAtoms(nodes);
+  const spaced = [AtomClass.Bin, AtomClass.Rel];
+  let result = '';
+  let previous: AtomClass | null = null;
+  nodes.forEach((node, i) => {
+    const atom = atoms[i];
+    const text = serializeNode(node);
+    const isSpaced =
+      previous !== null &&
+      ((atom && spaced.includes(atom.left)) ||
+        spaced.includes(previous) ||
+        previous === AtomClass.Punct);
+    result = isSpaced ? `${result} ${text}` : concat([result, text]);
+    if (atom) {
+      previous = atom.right;
+    }
+  });
+  return result;
+}
+
+function serializeNode(node: LatexNode): string {
+  switch (node.nodeType) {
+    case NodeType.Plain:
+      return withScripts(node, serializePlain(node));
+    case NodeType.Error:
+      return withScripts(node, node.token!.token);
+    case NodeType.PGroup:
+      return withScripts(node, `(${serializeList(node.children)})`);
+    case NodeType.BGroup:
+      return withScripts(node, `[${serializeList(node.children)}]`);
+    case NodeType.CBGroup:
+      return withScripts(node, `{${serializeList(node.children)}}`);
+    case NodeType.LeftRight:
+      return withScripts(node, serializeLeftRight(node));
+    case NodeType.Environment:
+      return serializeEnvironment(node);
+    case NodeType.Line:
+      return serializeList(node.children);
+  }
+  return '';
+}
+
+function serializePlain(node: LatexNode): string {
+  const token = node.token!;
+  const name = CANONICAL_TOKENS[token.tokenType] ?? token.token;
+  const isDelimiterCommand =
+    bigDelimiterSizes[token.tokenType] !== undefined ||
+    token.tokenType === TokenType.Middle;
+  if (isDelimiterCommand) {
+    return concat([name, ...node.children.map(serializeNode)]);
+  }
+  const parts = [name];
+  for (const optionalArg of node.optionalArgs || []) {
+    parts.push(`[${serializeList(optionalArg.children)}]`);
+  }
+  for (const rawArg of node.rawArgs || []) {
+    parts.push(`{${rawArg}}`);
+  }
+  for (const child of node.children) {
+    parts.push(serializeArgument(child));
+  }
+  return parts.join('');
+}
+
+// arguments are always braced, a brace group only once
+function serializeArgument(node: LatexNode): string {
+  const isGroup =
+    node.nodeType === NodeType.CBGroup && !node.subscript && !node.superscript;
+  if (isGroup) {
+    return `{${serializeList(node.children)}}`;
+  }
+  return `{${serializeNode(node)}}`;
+}
+
+function withScripts(node: LatexNode, base: string): string {
+  let text = base;
+  if (node.limits !== undefined) {
+    text += node.limits ? '\\limits' : '\\nolimits';
+  }
+  if (node.subscript) {
+    text += '_' + serializeScript(node.subscript);
+  }
+  if (node.superscript) {
+    text += '^' + serializeScript(node.superscript);
+  }
+  return text;
+}
+
+// x^2 and x_i stay unbraced, everything else is braced
+function serializeScript(script: LatexNode): string {
+  const content = script.children;
+  if (content.length === 1) {
+    const [child] = content;
+    if (
+      child.nodeType === NodeType.CBGroup &&
+      !child.subscript &&
+      !child.superscript
+    ) {
+      return serializeScript(child);
+    }
+    const text = serializeNode(child);
+    if (text.length === 1) {
+      return text;
+    }
+  }
+  return `{${serializeList(content)}}`;
+}
+
+function serializeLeftRight(node: LatexNode): string {
+  const [left, ...rest] = node.children;
+  const right = rest.pop();
+  return concat([
+    '\\left',
+    left ? serializeNode(left) : '.',
+    serializeList(rest),
+    '\\right',
+    right ? serializeNode(right) : '.',
+  ]);
+}
+
+function serializeEnvironment(node: LatexNode): string {
+  const name = node.token!.token;
+  const args = (node.rawArgs || []).map((arg) => `{${arg}}`).join('');
+  const { rows, hlinesAfter } = collectRows(node);
+  const lines = rows.map((row) => {
+    const cells = row.cells.map((cell) => serializeList(cell)).join(' & ');
+    return '\\hline '.repeat(row.hlinesBefore) + cells;
+  });
+  let body = lines.join(' \\\\ ');
+  if (hlinesAfter > 0) {
+    body += ' \\\\' + ' \\hline'.repeat(hlinesAfter);
+  }
+  return `\\begin{${name}}${args} ${body} \\end{${name}}`;
+}
+
+// Join pieces of LaTeX, with a space where they would otherwise run
+// together, like a control word followed by a letter.
+function concat(parts: string[]): string {
+  let result = '';
+  for (const part of parts) {
+    if (!part) {
+      continue;
+    }
+    const runsTogether = /[a-zA-Z]$/.test(result) && /^[a-zA-Z]/.test(part);
+    const digitsRunTogether = /[0-9]$/.test(result) && /^[0-9]/.test(part);
+    result += runsTogether || digitsRunTogether ? ' ' + part : part;
+  }
+  return result;
+}
@@ -1,24 +1,528 @@
 import yargs from 'yargs';
+import {
+  BatchEntry,
+  ManifestError,
+  manifestFormatOf,
+  parseManifest,
+} from './batch';
+import { ParseError } from './error';
+import { fontSetNames } from './font';
+import { formatLatex } from './format';
+import { renderLatexToMathML } from './mathml';
+import { DefaultRenderOptions, RenderOptions } from './options';
+import { parseLatexWithDiagnostics } from './parser';
 import { initRendering, renderLatex } from './render';
+import { renderLatexToPdf } from './pdf';
+import { renderLatexToText } from './plaintext';
+import { createRenderServer } from './server';
+import { renderLatexToSvg } from './svg';
 
 import fs from 'fs';
+import path from 'path';
 
-function main() {
-  const args = yargs(process.argv.slice(2))
-    .command('* <latex> <output>', 'Render LaTeX to an image')
+type Format = 'png' | 'svg' | 'pdf' | 'mathml' | 'text';
+
+// Options of the command line on top of `RenderOptions`.
+type CliOptions = RenderOptions & {
+  embedFonts: boolean;
+  displayMode: boolean;
+  annotation: boolean;
+};
+
+const FORMATS: Format[] = ['png', 'svg', 'pdf', 'mathml', 'text'];
+
+const FORMAT_EXTENSIONS: { [extension: string]: Format } = {
+  '.png': 'png',
+  '.svg': 'svg',
+  '.pdf': 'pdf',
+  '.mml': 'mathml',
+  '.mathml': 'mathml',
+  '.txt': 'text',
+};
+
+// parse errors and failed renders
+const EXIT_RENDER_ERROR = 1;
+// wrong arguments and unreadable or unwritable files
+const EXIT_USAGE_ERROR = 2;
+
+// An error reported by its message alone, exiting with `exitCode`.
+class CliError extends Error {
+  constructor(message: string, readonly exitCode: number = EXIT_USAGE_ERROR) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+function parseArgs() {
+  const defaults = DefaultRenderOptions;
+  return yargs(process.argv.slice(2))
+    .scriptName('larender')
+    .command(
+      '* [latex] [output]',
+      'Render LaTeX to a file, or to stdout without one. ' +
+        'The formula is read from stdin when it is - or missing.'
+    )
+    .command('format [latex]', 'Print LaTeX in a canonical form')
+    .command('batch <manifest>', 'Render the formulas listed in a manifest')
+    .command('serve', 'Render LaTeX over HTTP')
+    .option('input', {
+      alias: 'i',
+      type: 'string',
+      description: 'Read the formula from a file instead of the arguments',
+    })
+    .option('format', {
+      alias: 'f',
+      choices: FORMATS,
+      description: 'Output format, by default from the output extension',
+    })
+    .option('watch', {
+      alias: 'w',
+      type: 'boolean',
+      default: false,
+      description: 'Render again whenever the --input file changes',
+    })
+    .option('font-size', {
+      type: 'number',
+      default: defaults.fontSize,
+      description: 'Font size in pixels',
+    })
+    .option('width', {
+      type: 'number',
+      default: defaults.width,
+      description: 'Output width with --no-auto-size',
+    })
+    .option('height', {
+      type: 'number',
+      default: defaults.height,
+      description: 'Output height with --no-auto-size',
+    })
+    .option('auto-size', {
+      type: 'boolean',
+      default: true,
+      description: 'Fit the output to the formula instead of width x height',
+    })
+    .option('padding', {
+      type: 'number',
+      default: defaults.padding,
+      description: 'Space around the formula in pixels',
+    })
+    .option('horizontal-align', {
+      choices: ['left', 'center'] as const,
+      default: defaults.horizontalAlign,
+      description: 'Horizontal position of the formula',
+    })
+    .option('vertical-align', {
+      choices: ['top', 'center', 'baseline'] as const,
+      default: defaults.verticalAlign,
+      description: 'Vertical position of the formula',
+    })
+    .option('fill-background', {
+      type: 'boolean',
+      default: defaults.fillBackground,
+      description: 'Paint the background (--no-fill-background: transparent)',
+    })
+    .option('background-color', {
+      type: 'string',
+      default: defaults.backgroundColor,
+      description: 'Background colour',
+    })
+    .option('foreground-color', {
+      type: 'string',
+      default: defaults.foregroundColor,
+      description: 'Colour of the formula',
+    })
+    .option('throw-on-error', {
+      type: 'boolean',
+      default: defaults.throwOnError,
+      description: 'Fail on parse errors (--no-throw-on-error: render anyway)',
+    })
+    .option('error-color', {
+      type: 'string',
+      default: defaults.errorColor,
+      description: 'Colour of undefined commands with --no-throw-on-error',
+    })
+    .option('macro', {
+      alias: 'm',
+      type: 'string',
+      array: true,
+      default: [] as string[],
+      description: String.raw`Define a macro, like '\R=\mathbb{R}'`,
+    })
+    .option('max-expand', {
+      type: 'number',
+      default: defaults.maxExpand,
+      description: 'Limit of macro expansions',
+    })
+    .option('font-set', {
+      type: 'string',
+      choices: fontSetNames(),
+      description: 'Fonts to use in place of the font family options',
+    })
+    .option('fallback-font-families', {
+      type: 'string',
+      array: true,
+      default: defaults.fallbackFontFamilies,
+      description: 'Fonts tried for characters missing from the chosen font',
+    })
+    .option('main-font-family', {
+      type: 'string',
+      default: defaults.mainFontFamily,
+      description: 'Font of upright text',
+    })
+    .option('math-font-family', {
+      type: 'string',
+      default: defaults.mathFontFamily,
+      description: 'Font of math italic',
+    })
+    .option('ams-font-family', {
+      type: 'string',
+      default: defaults.amsFontFamily,
+      description: 'Font of the AMS symbols',
+    })
+    .option('greek-font-family', {
+      type: 'string',
+      default: defaults.greekFontFamily,
+      description: 'Font of lowercase Greek',
+    })
+    .option('size-font-families', {
+      type: 'string',
+      array: true,
+      default: defaults.sizeFontFamilies,
+      description: String.raw`Fonts of the delimiter sizes from \big to \Bigg`,
+    })
+    .option('alphabet-font-family', {
+      type: 'string',
+      array: true,
+      default: [] as string[],
+      description: String.raw`Font of a math alphabet, like '\mathbf=MyBold'`,
+    })
+    .option('embed-fonts', {
+      type: 'boolean',
+      default: true,
+      description: 'Embed the fonts in SVG output',
+    })
+    .option('display-mode', {
+      type: 'boolean',
+      default: true,
+      description: 'Block MathML (--no-display-mode: inline)',
+    })
+    .option('annotation', {
+      type: 'boolean',
+      default: false,
+      description: 'Keep the LaTeX source in the MathML output',
+    })
+    .option('port', {
+      type: 'number',
+      default: 3000,
+      description: 'Port the server listens on',
+    })
+    .option('cache-size', {
+      type: 'number',
+      default: 1000,
+      description: 'Number of rendered formulas the server keeps in memory',
+    })
+    .strict()
+    .fail((message, error) => {
+      throw error ?? new CliError(message);
+    })
     .parseSync();
+}
+
+type Args = ReturnType<typeof parseArgs>;
+
+function main() {
+  const args = parseArgs();
+  const options = cliOptionsOf(args);
+  const positionals = {
+    latex: positional(args.latex),
+    output: positional(args.output),
+  };
+  switch (args._[0]) {
+    case 'serve': {
+      const server = createRenderServer({
+        cacheSize: args.cacheSize,
+        renderOptions: options,
+      });
+      server.listen(args.port, () => {
+        console.log(`Listening on http://localhost:${args.port}`);
+      });
+      return;
+    }
+    case 'format': {
+      const latex = readLatex(args.input, positionals.latex);
+      console.log(
+        parseOrFail(latex, options, () => formatLatex(latex, options))
+      );
+      return;
+    }
+    case 'batch':
+      renderBatch(args.manifest as string, args.format, options);
+      return;
+  }
+
+  // with --input the only positional argument is the output
+  const output =
+    args.input !== undefined ? positionals.latex : positionals.output;
+  if (args.input !== undefined && positionals.output !== undefined) {
+    throw new CliError('Give either --input or a formula, not both');
+  }
+  const format = args.format ?? formatOf(output) ?? 'png';
+  if (args.watch) {
+    if (args.input === undefined || args.input === '-') {
+      throw new CliError('--watch needs an --input file');
+    }
+    watch(args.input, output, format, options);
+    return;
+  }
+  const latex = readLatex(args.input, positionals.latex);
+  writeOutput(output, renderAs(format, latex, options));
+}
+
+// yargs reads a lone - as an empty flag, true
+function positional(value: unknown): string | undefined {
+  return value === true ? '-' : (value as string | undefined);
+}
+
+function cliOptionsOf(args: Args): CliOptions {
+  return {
+    fontSize: args.fontSize,
+    width: args.width,
+    height: args.height,
+    fillBackground: args.fillBackground,
+    backgroundColor: args.backgroundColor,
+    foregroundColor: args.foregroundColor,
+    fontSet: args.fontSet ?? null,
+    mainFontFamily: args.mainFontFamily,
+    mathFontFamily: args.mathFontFamily,
+    amsFontFamily: args.amsFontFamily,
+    greekFontFamily: args.greekFontFamily,
+    sizeFontFamilies: args.sizeFontFamilies,
+    alphabetFontFamilies: {
+      ...DefaultRenderOptions.alphabetFontFamilies,
+      ...parseDefinitions(args.alphabetFontFamily, '--alphabet-font-family'),
+    },
+    fallbackFontFamilies: args.fallbackFontFamilies,
+    autoSize: args.autoSize,
+    padding: args.padding,
+    horizontalAlign: args.horizontalAlign,
+    verticalAlign: args.verticalAlign,
+    throwOnError: args.throwOnError,
+    errorColor: args.errorColor,
+    macros: parseDefinitions(args.macro, '--macro'),
+    maxExpand: args.maxExpand,
+    embedFonts: args.embedFonts,
+    displayMode: args.displayMode,
+    annotation: args.annotation,
+  };
+}
 
-  const latex = args.latex as string;
-  const output = args.output as string;
-  initRendering();
-  const options = {
-    width: 600,
-    height: 400,
-    fontSize: 48,
-    marginRatio: 0.1,
+// 'name=value' pairs of repeatable options like --macro
+function parseDefinitions(
+  definitions: string[],
+  option: string
+): { [name: string]: string } {
+  const result: { [name: string]: string } = {};
+  for (const definition of definitions) {
+    const index = definition.indexOf('=');
+    if (index <= 0) {
+      throw new CliError(`${option} takes name=value, not '${definition}'`);
+    }
+    result[definition.slice(0, index)] = definition.slice(index + 1);
+  }
+  return result;
+}
+
+function formatOf(output: string | undefined): Format | null {
+  if (!output || output === '-') {
+    return null;
+  }
+  return FORMAT_EXTENSIONS[path.extname(output).toLowerCase()] ?? null;
+}
+
+// The formula of an --input file or the arguments, from stdin for - or
+// when neither is given.
+function readLatex(input: string | undefined, latex: string | undefined) {
+  if (input !== undefined && input !== '-') {
+    return readFile(input).trim();
+  }
+  if (input === undefined && latex !== undefined && latex !== '-') {
+    return latex;
+  }
+  if (input === undefined && latex === undefined && process.stdin.isTTY) {
+    throw new CliError('Give a formula, an --input file or pipe one in');
+  }
+  return fs.readFileSync(0, 'utf8').trim();
+}
+
+function readFile(file: string): string {
+  try {
+    return fs.readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new CliError(`Cannot read ${file}: ${(error as Error).message}`);
+  }
+}
+
+function writeOutput(output: string | undefined, content: Buffer | string) {
+  if (output === undefined || output === '-') {
+    process.stdout.write(content);
+    return;
+  }
+  try {
+    fs.writeFileSync(output, content);
+  } catch (error) {
+    throw new CliError(`Cannot write ${output}: ${(error as Error).message}`);
+  }
+}
+
+let isFontRegistered = false;
+
+function renderAs(
+  format: Format,
+  latex: string,
+  options: CliOptions
+): Buffer | string {
+  if (format === 'mathml') {
+    return parseOrFail(latex, options, () =>
+      renderLatexToMathML(latex, options)
+    );
+  }
+  if (format === 'text') {
+    return parseOrFail(
+      latex,
+      options,
+      () => renderLatexToText(latex, options) + '\n'
+    );
+  }
+  // the layout is measured with the fonts even for vector output
+  if (!isFontRegistered) {
+    initRendering();
+    isFontRegistered = true;
+  }
+  switch (format) {
+    case 'svg':
+      return parseOrFail(latex, options, () =>
+        renderLatexToSvg(latex, options)
+      );
+    case 'pdf':
+      return parseOrFail(latex, options, () =>
+        renderLatexToPdf(latex, options)
+      );
+    default:
+      return parseOrFail(latex, options, () => renderLatex(latex, options));
+  }
+}
+
+// Run `render`, turning parse errors into messages that point at the
+// source, and warn about the errors --no-throw-on-error renders past.
+function parseOrFail<T>(
+  latex: string,
+  options: CliOptions,
+  render: () => T
+): T {
+  let result: T;
+  try {
+    result = render();
+  } catch (error) {
+    if (error instanceof ParseError) {
+      throw new CliError(describeParseError(error, latex), EXIT_RENDER_ERROR);
+    }
+    throw error;
+  }
+  if (options.throwOnError) {
+    return result;
+  }
+  const { diagnostics } = parseLatexWithDiagnostics(latex, options);
+  for (const diagnostic of diagnostics) {
+    console.error(`warning: ${describeParseError(diagnostic, latex)}`);
+  }
+  return result;
+}
+
+// The message with the source line and a caret under the error:
+//   Undefined control sequence \to at line 1, column 9
+//     \lim_{n \to \infty}
+//             ^^^
+function describeParseError(error: ParseError, latex: string): string {
+  const line = latex.split('\n')[error.line - 1] ?? '';
+  const start = error.column - 1;
+  const length = Math.max(1, Math.min(error.end - error.start, line.length));
+  const caret = ' '.repeat(start) + '^'.repeat(length);
+  return `${error.message}\n  ${line}\n  ${caret}`;
+}
+
+// Render every formula of the manifest, going on past failures, and exit
+// with an error code if any of them failed.
+function renderBatch(
+  manifest: string,
+  format: Format | undefined,
+  options: CliOptions
+) {
+  let entries: BatchEntry[];
+  try {
+    entries = parseManifest(readFile(manifest), manifestFormatOf(manifest));
+  } catch (error) {
+    if (error instanceof ManifestError) {
+      throw new CliError(`${manifest}: ${error.message}`);
+    }
+    throw error;
+  }
+  // outputs are relative to the manifest
+  const directory = path.dirname(manifest);
+  let numOfFailures = 0;
+  for (const { latex, output } of entries) {
+    try {
+      const entryFormat = format ?? formatOf(output) ?? 'png';
+      const content = renderAs(entryFormat, latex, options);
+      writeOutput(path.resolve(directory, output), content);
+    } catch (error) {
+      numOfFailures++;
+      console.error(`${output}: ${(error as Error).message}`);
+    }
+  }
+  const numOfRendered = entries.length - numOfFailures;
+  console.error(`Rendered ${numOfRendered} of ${entries.length} formulas`);
+  if (numOfFailures > 0) {
+    process.exitCode = EXIT_RENDER_ERROR;
+  }
+}
+
+// Render `input` now and again whenever it changes, reporting errors
+// without exiting.
+function watch(
+  input: string,
+  output: string | undefined,
+  format: Format,
+  options: CliOptions
+) {
+  if (output === undefined || output === '-') {
+    throw new CliError('--watch needs an output file');
+  }
+  const render = () => {
+    try {
+      const latex = readFile(input).trim();
+      writeOutput(output, renderAs(format, latex, options));
+      console.error(`Rendered ${output}`);
+    } catch (error) {
+      console.error(`error: ${(error as Error).message}`);
+    }
   };
-  const buffer = renderLatex(latex as string, options);
-  fs.writeFileSync(output, buffer);
+  render();
+  console.error(`Watching ${input}`);
+  fs.watchFile(input, { interval: 200 }, (current, previous) => {
+    if (current.mtimeMs !== previous.mtimeMs) {
+      render();
+    }
+  });
 }
 
-main();
+try {
+  main();
+} catch (error) {
+  if (error instanceof CliError) {
+    console.error(`larender: ${error.message}`);
+    process.exitCode = error.exitCode;
+  } else {
+    console.error(`larender: ${(error as Error).message}`);
+    process.exitCode = EXIT_RENDER_ERROR;
+  }
+}
@@ -0,0 +1,61 @@
+import { Box } from './box.ts';
+import { LatexLayout } from './layout.ts';
+import { DefaultRenderOptions } from './options.ts';
+import { parseLatex } from './parser.ts';
+import { initRendering } from './render.ts';
+
+function layout(latex: string): Box {
+  const node = parseLatex(latex);
+  return new LatexLayout(DefaultRenderOptions).layout(node.children);
+}
+
+beforeAll(() => {
+  initRendering();
+});
+
+describe('LatexLayout', () => {
+  test('measures glyphs from the baseline', () => {
+    const box = layout('x');
+    expect(box.width).toBeGreaterThan(0);
+    expect(box.height).toBeGreaterThan(0);
+  });
+
+  test('lays out recovered input', () => {
+    const node = parseLatex('\\frac{a} + \\sqrt', { throwOnError: false });
+    const box = new LatexLayout(DefaultRenderOptions).layout(node.children);
+    expect(box.width).toBeGreaterThan(0);
+  });
+
+  test('lays out boxes from left to right', () => {
+    expect(layout('x + y').width).toBeGreaterThan(layout('x').width);
+  });
+
+  test('raises superscripts and lowers subscripts', () => {
+    const base = layout('x');
+    const superscript = layout('x^2');
+    const subscript = layout('x_2');
+    expect(superscript.width).toBeGreaterThan(base.width);
+    expect(superscript.height).toBeGreaterThan(base.height);
+    expect(subscript.depth).toBeGreaterThan(base.depth);
+  });
+
+  test('stacks fractions around the baseline', () => {
+    const fraction = layout('\\frac{a}{b}');
+    expect(fraction.height).toBeGreaterThan(layout('a').height);
+    expect(fraction.depth).toBeGreaterThan(layout('b').depth);
+  });
+
+  test('spaces atoms by their class', () => {
+    const [a, plus, b] = ['a', '+', 'b'].map((latex) => layout(latex).width);
+    expect(layout('a+b').width).toBeGreaterThan(a + plus + b);
+    expect(layout('a\\quad b').width).toBeCloseTo(
+      a + b + DefaultRenderOptions.fontSize
+    );
+  });
+
+  test('puts a radical sign before the content', () => {
+    const root = layout('\\sqrt{x}');
+    expect(root.width).toBeGreaterThan(layout('x').width);
+    expect(root.height).toBeGreaterThan(layout('x').height);
+  });
+});
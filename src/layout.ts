@@ -0,0 +1,1346 @@
+import {
+  constructArrow,
+  constructWideHat,
+  constructWideTilde,
+} from './accent.ts';
+import {
+  ColumnSpec,
+  MATRIX_DELIMITERS,
+  collectRows,
+  parseColumnSpec,
+} from './array.ts';
+import { LatexNode, NodeType, TokenType, createNode, nodeText } from './ast.ts';
+import {
+  Box,
+  BoxType,
+  PlacedBox,
+  centerOnAxis,
+  createGlyphBox,
+  createHBox,
+  createHList,
+  createKern,
+  createPathBox,
+  createRuleBox,
+  createStrut,
+  createVList,
+  paintBox,
+  trimmedWidth,
+} from './box.ts';
+import {
+  BIG_DELIMITER_HEIGHTS,
+  constructDelimiter,
+  constructRadical,
+  sizeFontDelimiters,
+} from './delimiter.ts';
+import { hasGlyphs, measureText, withFontSet } from './font.ts';
+import { RenderOptions } from './options.ts';
+import {
+  Atom,
+  atomSpacing,
+  classifyAtoms,
+  parseDimension,
+  spaceWidths,
+} from './spacing.ts';
+import {
+  accentMap,
+  bigDelimiterSizes,
+  bigOperatorMap,
+  delimiterMap,
+  integralOperators,
+  italicSkews,
+  lowercaseGreekMap,
+  symbolMap,
+  uppercaseGreekMap,
+} from './symbols.ts';
+
+// TeX math styles. Each style has its own font size and decides the style
+// of nested scripts and fractions.
+export enum MathStyle {
+  Display = 'Display',
+  Text = 'Text',
+  Script = 'Script',
+  ScriptScript = 'ScriptScript',
+}
+
+const STYLE_SCALES: { [key in MathStyle]: number } = {
+  [MathStyle.Display]: 1,
+  [MathStyle.Text]: 1,
+  [MathStyle.Script]: 0.7,
+  [MathStyle.ScriptScript]: 0.5,
+};
+
+export function scriptStyle(style: MathStyle): MathStyle {
+  switch (style) {
+    case MathStyle.Display:
+    case MathStyle.Text:
+      return MathStyle.Script;
+    default:
+      return MathStyle.ScriptScript;
+  }
+}
+
+// style of the numerator and denominator of a fraction set in `style`
+export function fractionStyle(style: MathStyle): MathStyle {
+  switch (style) {
+    case MathStyle.Display:
+      return MathStyle.Text;
+    case MathStyle.Text:
+      return MathStyle.Script;
+    default:
+      return MathStyle.ScriptScript;
+  }
+}
+
+export type LayoutState = {
+  fontSize: number;
+  style: MathStyle;
+  // math alphabet command like \mathbf the content is set in
+  alphabet: string | null;
+  // colour set by \color or \textcolor, the foreground colour when null
+  color: string | null;
+};
+
+// Output size and the position of the root box's origin in it.
+export type Placement = {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+};
+
+type FractionLayoutOptions = {
+  // style the fraction is set in; the current style when omitted
+  style?: MathStyle;
+  barThickness: number;
+  leftDelimiter?: string;
+  rightDelimiter?: string;
+  // \cfrac: keep every level in display style with struts in the numerator
+  continued?: boolean;
+};
+
+type ArrayLayoutOptions = {
+  columns: ColumnSpec;
+  // style of the cells
+  style: MathStyle;
+  // space between two columns in em
+  columnSeparation: number;
+  // also keep half of the column separation before the first and after the
+  // last column, as the array environment does
+  outerSeparation: boolean;
+  // factor for the minimum row height, like \arraystretch
+  arrayStretch: number;
+  // extra space between two rows in em, like \jot
+  rowSeparation: number;
+  // columns form right and left aligned pairs as in amsmath's align and the
+  // column separation only goes between two pairs
+  alignPairs: boolean;
+};
+
+type ScriptLayoutOptions = {
+  // the superscript moves right by this amount past a slanted glyph
+  italicCorrection: number;
+  // raise and lower the scripts with the top and bottom of a tall base
+  // instead of using the fixed shifts of single characters
+  followBase: boolean;
+};
+
+const DUMMY_CHAR = 'M';
+const RULE_THICKNESS = 2;
+const DELIMITER_FACTOR = 0.901;
+const DELIMITER_SHORTFALL = 0.5;
+// italic corrections of the integral signs of KaTeX_Size1 and KaTeX_Size2 in
+// em, which canvas can't measure
+const INTEGRAL_ITALIC_CORRECTIONS = [0.19445, 0.44445];
+// total heights of the \sqrt glyphs of KaTeX_Main and KaTeX_Size1 to 4 in em
+const RADICAL_HEIGHTS = [1.0, 1.2, 1.8, 2.4, 3.0];
+// thickness of the vinculum, matching the stroke of the radical glyphs
+const SURD_RULE_THICKNESS = 0.04;
+// space after scripts in em, like \scriptspace
+const SCRIPT_SPACE = 0.05;
+// space between a base and the ink of its accent in em
+const ACCENT_GAP = 0.08;
+
+// space between the text of \colorbox and its edges in em, like \fboxsep
+const FBOX_SEPARATION = 0.3;
+
+// space amsmath adds between the rows of aligned equations
+const JOT = 0.3;
+
+class LayoutContext {
+  private states: LayoutState[] = [];
+  constructor(rootLayoutState: LayoutState) {
+    this.states.push(rootLayoutState);
+  }
+
+  pushState(layoutState: LayoutState) {
+    this.states.push(layoutState);
+  }
+
+  popState(): LayoutState | undefined {
+    return this.states.pop();
+  }
+
+  get layoutState(): LayoutState {
+    return this.states[this.states.length - 1];
+  }
+
+  get depth(): number {
+    return this.states.length;
+  }
+}
+
+// Computes the boxes of a LaTeX AST without drawing anything.
+export class LatexLayout {
+  private layoutContext: LayoutContext;
+  private options: RenderOptions;
+
+  constructor(options: RenderOptions) {
+    this.options = withFontSet(options);
+    this.layoutContext = new LayoutContext({
+      fontSize: options.fontSize,
+      style: MathStyle.Display,
+      alphabet: null,
+      color: null,
+    });
+  }
+
+  get layoutState() {
+    return this.layoutContext.layoutState;
+  }
+
+  pushState(layoutState: LayoutState) {
+    this.layoutContext.pushState(layoutState);
+  }
+
+  popState(): LayoutState | undefined {
+    return this.layoutContext.popState();
+  }
+
+  pushStyle(style: MathStyle) {
+    this.pushState({
+      ...this.layoutState,
+      fontSize: this.options.fontSize * STYLE_SCALES[style],
+      style,
+    });
+  }
+
+  layout(nodes: LatexNode[]): Box {
+    return createHList(this.layoutList(nodes));
+  }
+
+  // Lay out the nodes of a group, one box per node. \color changes the
+  // colour of the nodes following it up to the end of the group.
+  layoutList(nodes: LatexNode[]): Box[] {
+    const depth = this.layoutContext.depth;
+    const atoms = classifyAtoms(nodes);
+    let previous: Atom | null = null;
+    const boxes: Box[] = [];
+    nodes.forEach((node, i) => {
+      if (node.token?.tokenType === TokenType.Color) {
+        if (this.layoutContext.depth > depth) {
+          this.popState();
+        }
+        this.pushState({ ...this.layoutState, color: node.rawArgs![0] });
+      }
+      let box = this.layoutNode(node);
+      const atom = atoms[i];
+      if (atom && previous) {
+        const { fontSize, style } = this.layoutState;
+        const isScript =
+          style === MathStyle.Script || style === MathStyle.ScriptScript;
+        const mu = fontSize / 18;
+        const space = atomSpacing(previous.right, atom.left, isScript) * mu;
+        if (space > 0) {
+          box = createHList([createKern(space), box]);
+        }
+      }
+      previous = atom ?? previous;
+      if (this.layoutState.color) {
+        paintBox(box, this.layoutState.color);
+      }
+      boxes.push(box);
+    });
+    if (this.layoutContext.depth > depth) {
+      this.popState();
+    }
+    return boxes;
+  }
+
+  // height of the math axis (the line fraction bars sit on) above the baseline
+  axisHeight(fontSize: number = this.layoutState.fontSize): number {
+    return this.measureDummy(fontSize).height / 2;
+  }
+
+  measureDummy(fontSize: number = this.layoutState.fontSize) {
+    return measureText(DUMMY_CHAR, this.options.mainFontFamily, fontSize);
+  }
+
+  layoutGlyph(
+    text: string,
+    font: string | null = null,
+    style: string = ''
+  ): Box {
+    const fontName = font || this.options.mainFontFamily;
+    if (hasGlyphs(fontName, text)) {
+      return this.createGlyph(text, fontName, style);
+    }
+    const runs = this.fallbackRuns(text, fontName);
+    if (runs.length === 1) {
+      return this.createGlyph(runs[0].text, runs[0].font, style);
+    }
+    return createHList(
+      runs.map(({ text, font }) => this.createGlyph(text, font, style))
+    );
+  }
+
+  // `text` split where the font of its characters changes, each in the
+  // first of `font` and the fallback fonts that has it, or in `font` when
+  // none does
+  fallbackRuns(text: string, font: string): { text: string; font: string }[] {
+    const fonts = [font, ...this.options.fallbackFontFamilies];
+    const runs: { text: string; font: string }[] = [];
+    for (const char of text) {
+      const charFont = fonts.find((f) => hasGlyphs(f, char)) || font;
+      const last = runs[runs.length - 1];
+      if (last && last.font === charFont) {
+        last.text += char;
+      } else {
+        runs.push({ text: char, font: charFont });
+      }
+    }
+    return runs;
+  }
+
+  createGlyph(text: string, font: string, style: string): Box {
+    const fontSize = this.layoutState.fontSize;
+    const metrics = measureText(text, font, fontSize);
+    return createGlyphBox(text, font, style, fontSize, {
+      width: metrics.width,
+      height: metrics.ascent,
+      depth: metrics.descent,
+    });
+  }
+
+  layoutNode(node: LatexNode): Box {
+    if (node.nodeType === NodeType.Plain) {
+      switch (node.token!.tokenType) {
+        case TokenType.Superscript:
+        case TokenType.Subscript: {
+          return this.layoutScript(node);
+        }
+        case TokenType.Limit:
+          return this.layoutNamedOperator(node, 'lim');
+        case TokenType.Sin:
+        case TokenType.Cos:
+        case TokenType.Tan:
+        case TokenType.Log:
+          return this.layoutNamedOperator(
+            node,
+            node.token!.token.slice(1),
+            false
+          );
+        case TokenType.Square:
+          return this.layoutText(
+            node,
+            symbolMap[TokenType.Square],
+            this.options.amsFontFamily
+          );
+        case TokenType.SquareRoot:
+          return this.layoutSquareRoot(node);
+        case TokenType.Frac:
+          return this.layoutFraction(node);
+        case TokenType.Dfrac:
+          return this.layoutFraction(node, { style: MathStyle.Display });
+        case TokenType.Tfrac:
+          return this.layoutFraction(node, { style: MathStyle.Text });
+        case TokenType.Cfrac:
+          return this.layoutFraction(node, {
+            style: MathStyle.Display,
+            continued: true,
+          });
+        case TokenType.Binom:
+          return this.layoutBinomial(node);
+        case TokenType.Dbinom:
+          return this.layoutBinomial(node, MathStyle.Display);
+        case TokenType.Tbinom:
+          return this.layoutBinomial(node, MathStyle.Text);
+        case TokenType.Genfrac:
+          return this.layoutGeneralizedFraction(node);
+        case TokenType.Alphabet:
+          return this.layoutLetters(node, node.token!.token);
+        case TokenType.Number:
+          return this.layoutText(
+            node,
+            node.token!.token,
+            this.alphabetFont(node.token!.token)
+          );
+        case TokenType.Text:
+          return this.layoutText(node, node.rawArgs![0]);
+        case TokenType.Vec:
+          return this.layoutAccent(node);
+        case TokenType.WideHat:
+        case TokenType.WideTilde:
+        case TokenType.OverRightArrow:
+        case TokenType.OverLeftArrow:
+          return this.layoutWideAccent(node);
+        case TokenType.Color:
+          // the colour is switched by `layoutList`
+          return createKern(0);
+        case TokenType.Hspace: {
+          const fontSize = this.layoutState.fontSize;
+          return createKern(parseDimension(node.rawArgs![0], fontSize) ?? 0);
+        }
+        case TokenType.TextColor:
+          return this.layoutTextColor(node);
+        case TokenType.ColorBox:
+        case TokenType.FColorBox:
+          return this.layoutColorBox(node);
+        case TokenType.Overline:
+          return this.layoutOverline(node);
+        case TokenType.Underline:
+          return this.layoutUnderline(node);
+        case TokenType.MathRm:
+        case TokenType.MathIt:
+        case TokenType.MathBf:
+        case TokenType.BoldSymbol:
+        case TokenType.MathBb:
+        case TokenType.MathCal:
+        case TokenType.MathFrak:
+        case TokenType.MathScr:
+        case TokenType.MathSf:
+        case TokenType.MathTt:
+          return this.layoutMathAlphabet(node);
+        case TokenType.Character:
+          return this.layoutText(node, node.token!.token);
+        default: {
+          const tokenType = node.token!.tokenType;
+          if (lowercaseGreekMap[tokenType]) {
+            // only \boldsymbol changes lowercase Greek
+            if (this.layoutState.alphabet === TokenType.BoldSymbol) {
+              return this.layoutText(
+                node,
+                lowercaseGreekMap[tokenType],
+                this.alphabetFont(lowercaseGreekMap[tokenType])
+              );
+            }
+            return this.layoutText(
+              node,
+              lowercaseGreekMap[tokenType],
+              this.options.greekFontFamily,
+              'italic'
+            );
+          }
+          if (symbolMap[tokenType]) {
+            return this.layoutText(node, symbolMap[tokenType]);
+          }
+          if (spaceWidths[tokenType] !== undefined) {
+            const mu = this.layoutState.fontSize / 18;
+            return createKern(spaceWidths[tokenType] * mu);
+          }
+          if (accentMap[tokenType]) {
+            return this.layoutAccent(node);
+          }
+          if (bigOperatorMap[tokenType]) {
+            return this.layoutBigOperator(node, bigOperatorMap[tokenType]);
+          }
+          if (uppercaseGreekMap[tokenType]) {
+            return this.layoutText(
+              node,
+              uppercaseGreekMap[tokenType],
+              this.alphabetFont(uppercaseGreekMap[tokenType])
+            );
+          }
+          if (bigDelimiterSizes[tokenType]) {
+            const delimiter = this.layoutBigDelimiter(
+              node.children[0]?.token?.token,
+              bigDelimiterSizes[tokenType]
+            );
+            return this.layoutScripts(node, delimiter);
+          }
+          if (delimiterMap[tokenType]) {
+            return this.layoutText(node, delimiterMap[tokenType]);
+          }
+          return this.layoutText(node, node.token!.token);
+        }
+      }
+    } else if (node.nodeType === NodeType.Error) {
+      return this.layoutError(node);
+    } else if (node.nodeType === NodeType.LeftRight) {
+      return this.layoutLeftRight(node);
+    } else if (node.nodeType === NodeType.PGroup) {
+      return this.layoutGroup(node, '(', ')');
+    } else if (node.nodeType === NodeType.BGroup) {
+      return this.layoutGroup(node, '[', ']');
+    } else if (node.nodeType === NodeType.CBGroup) {
+      return this.layoutGroup(node);
+    } else if (node.nodeType === NodeType.Line) {
+      return this.layout(node.children);
+    } else if (node.nodeType === NodeType.Paragraph) {
+      return this.layoutParagraph(node);
+    } else if (node.nodeType === NodeType.Environment) {
+      return this.layoutEnvironment(node);
+    }
+    return createKern(0);
+  }
+
+  // Put an accent glyph (or the arrow of \vec) over the argument of `node`,
+  // centred on its ink and moved right by the skew of an italic letter.
+  layoutAccent(node: LatexNode): Box {
+    const base = this.layout(node.children);
+    const fontSize = this.layoutState.fontSize;
+    const char = accentMap[node.token!.tokenType];
+    const accent = char
+      ? this.layoutGlyph(char)
+      : constructArrow(fontSize * 0.5, fontSize, 'right');
+    const center = trimmedWidth(base) / 2 + this.accentSkew(node);
+    // the bottom of the accent's ink sits just above the base
+    const bottom = -base.height - fontSize * ACCENT_GAP;
+    return this.decorate(node, base, [
+      { box: accent, x: center - accent.width / 2, y: bottom - accent.depth },
+    ]);
+  }
+
+  // \widehat, \widetilde and the arrows, stretched to the width of the base
+  layoutWideAccent(node: LatexNode): Box {
+    const base = this.layout(node.children);
+    const fontSize = this.layoutState.fontSize;
+    const width = Math.max(trimmedWidth(base), fontSize * 0.5);
+    let accent: Box;
+    switch (node.token!.tokenType) {
+      case TokenType.WideHat:
+        accent = constructWideHat(width, fontSize);
+        break;
+      case TokenType.WideTilde:
+        accent = constructWideTilde(width, fontSize);
+        break;
+      case TokenType.OverLeftArrow:
+        accent = constructArrow(width, fontSize, 'left');
+        break;
+      default:
+        accent = constructArrow(width, fontSize, 'right');
+    }
+    const x = (trimmedWidth(base) - width) / 2;
+    const y = -base.height - fontSize * ACCENT_GAP;
+    return this.decorate(node, base, [{ box: accent, x, y }]);
+  }
+
+  // Add accents or rules placed relative to `base` and attach the scripts of
+  // `node` right after the ink, keeping the space that followed the base.
+  // Everything moves right when a decoration sticks out on the left.
+  decorate(node: LatexNode, base: Box, decorations: PlacedBox[]): Box {
+    const shift = Math.max(0, ...decorations.map((child) => -child.x));
+    const inkWidth = trimmedWidth(base);
+    const hbox = createHBox([
+      { box: base, x: shift, y: 0 },
+      ...decorations.map((child) => ({ ...child, x: child.x + shift })),
+    ]);
+    // like TeX, accents sticking out on the right do not push the scripts
+    hbox.width = shift + inkWidth;
+    return createHList([
+      this.layoutScripts(node, hbox),
+      createKern(base.width - inkWidth),
+    ]);
+  }
+
+  // skew of the argument of an accent when it is a single italic letter
+  accentSkew(node: LatexNode): number {
+    let child = node.children[0];
+    if (child?.nodeType === NodeType.CBGroup && child.children.length === 1) {
+      child = child.children[0];
+    }
+    const isLetter =
+      child?.token?.tokenType === TokenType.Alphabet &&
+      !child.subscript &&
+      !child.superscript;
+    if (!isLetter || this.layoutState.alphabet) {
+      return 0;
+    }
+    return (italicSkews[child.token!.token] || 0) * this.layoutState.fontSize;
+  }
+
+  // TeX's \overline: a rule three rule thicknesses above the base with one
+  // more of space above it
+  layoutOverline(node: LatexNode): Box {
+    const base = this.layout(node.children);
+    const rule = createRuleBox(trimmedWidth(base), RULE_THICKNESS);
+    const y = -base.height - RULE_THICKNESS * 3;
+    return this.decorate(node, base, [
+      { box: rule, x: 0, y },
+      { box: createStrut(-y + RULE_THICKNESS * 2, 0), x: 0, y: 0 },
+    ]);
+  }
+
+  layoutUnderline(node: LatexNode): Box {
+    const base = this.layout(node.children);
+    const rule = createRuleBox(trimmedWidth(base), 0, RULE_THICKNESS);
+    const y = base.depth + RULE_THICKNESS * 3;
+    return this.decorate(node, base, [
+      { box: rule, x: 0, y },
+      { box: createStrut(0, y + RULE_THICKNESS * 2), x: 0, y: 0 },
+    ]);
+  }
+
+  layoutMathAlphabet(node: LatexNode): Box {
+    this.pushState({ ...this.layoutState, alphabet: node.token!.token });
+    const box = this.layout(node.children);
+    this.popState();
+    return this.layoutScripts(node, box);
+  }
+
+  // Font of `text`, a letter, a Greek letter or digits, in the current math
+  // alphabet and the main font outside of one. Characters the font of the
+  // alphabet lacks fall back to the main font.
+  alphabetFont(text: string): string {
+    const alphabet = this.layoutState.alphabet;
+    const main = this.options.mainFontFamily;
+    if (!alphabet) {
+      return main;
+    }
+    const family = this.options.alphabetFontFamilies[alphabet] || main;
+    const isLetter = /^[a-zA-Z]$/.test(text);
+    switch (alphabet) {
+      case TokenType.MathBb:
+      case TokenType.MathCal:
+      case TokenType.MathScr:
+        return /^[A-Z]$/.test(text) ? family : main;
+      case TokenType.MathFrak:
+        return isLetter || /^[0-9]+$/.test(text) ? family : main;
+      case TokenType.BoldSymbol: {
+        // digits and capital Greek are upright bold
+        const isLowercaseGreek =
+          Object.values(lowercaseGreekMap).includes(text);
+        if (isLetter || isLowercaseGreek) {
+          return family;
+        }
+        return this.options.alphabetFontFamilies[TokenType.MathBf] || main;
+      }
+      default:
+        return family;
+    }
+  }
+
+  // Variables are set in math italic, or per letter in the font of the
+  // current math alphabet.
+  layoutLetters(node: LatexNode, text: string): Box {
+    if (!this.layoutState.alphabet) {
+      return this.layoutText(node, text, this.options.mathFontFamily, 'italic');
+    }
+    const glyphs = [...text].map((char) =>
+      this.layoutGlyph(char, this.alphabetFont(char))
+    );
+    return this.layoutScripts(node, createHList(glyphs));
+  }
+
+  layoutTextColor(node: LatexNode): Box {
+    this.pushState({ ...this.layoutState, color: node.rawArgs![0] });
+    const box = this.layout(node.children);
+    this.popState();
+    return this.layoutScripts(node, box);
+  }
+
+  // Text on a coloured background, framed by a rule in \fcolorbox.
+  layoutColorBox(node: LatexNode): Box {
+    const args = node.rawArgs!;
+    const text = args[args.length - 1];
+    const background = args[args.length - 2];
+    const frame = args.length > 2 ? args[0] : null;
+    const content = this.layoutGlyph(text);
+    const ruleWidth = frame ? RULE_THICKNESS : 0;
+    const inset = this.layoutState.fontSize * FBOX_SEPARATION + ruleWidth;
+    const width = content.width + inset * 2;
+    const children: PlacedBox[] = [];
+    if (frame) {
+      const rule = createRuleBox(
+        width,
+        content.height + inset,
+        content.depth + inset
+      );
+      rule.color = frame;
+      children.push({ box: rule, x: 0, y: 0 });
+    }
+    const fill = createRuleBox(
+      width - ruleWidth * 2,
+      content.height + inset - ruleWidth,
+      content.depth + inset - ruleWidth
+    );
+    fill.color = background;
+    children.push({ box: fill, x: ruleWidth, y: 0 });
+    children.push({ box: content, x: inset, y: 0 });
+    return this.layoutScripts(node, createHBox(children));
+  }
+
+  // show the source of input that failed to parse
+  layoutError(node: LatexNode): Box {
+    const text = node.token!.token;
+    const font = this.options.mainFontFamily;
+    const fontSize = this.layoutState.fontSize;
+    const metrics = measureText(text, font, fontSize);
+    const glyph = createGlyphBox(text, font, '', fontSize, {
+      width: metrics.width,
+      height: metrics.ascent,
+      depth: metrics.descent,
+    });
+    glyph.color = this.options.errorColor;
+    return this.layoutScripts(node, glyph);
+  }
+
+  layoutGroup(
+    node: LatexNode,
+    open: string | null = null,
+    close: string | null = null
+  ): Box {
+    const boxes: Box[] = [];
+    if (open) {
+      boxes.push(this.layoutGlyph(open));
+    }
+    boxes.push(...this.layoutList(node.children));
+    if (close) {
+      boxes.push(this.layoutGlyph(close));
+    }
+    return this.layoutScripts(node, createHList(boxes));
+  }
+
+  layoutEnvironment(node: LatexNode): Box {
+    const envName = node.token!.token;
+    if (envName === 'cases') {
+      const grid = this.layoutArray(node, {
+        columns: parseColumnSpec('ll'),
+        columnSeparation: 1,
+      });
+      return createHList([
+        this.layoutDelimiter('\\{', (grid.height + grid.depth) / 2),
+        createKern(this.measureDummy().width * 0.2),
+        grid,
+      ]);
+    }
+    if (envName === 'array') {
+      return this.layoutArray(node, {
+        columns: parseColumnSpec(node.rawArgs?.[0] || ''),
+        outerSeparation: true,
+      });
+    }
+    switch (envName) {
+      case 'align':
+      case 'align*':
+      case 'aligned':
+      case 'split':
+        return this.layoutArray(node, {
+          style: MathStyle.Display,
+          columnSeparation: envName.startsWith('align') ? 2 : 1,
+          rowSeparation: JOT,
+          alignPairs: true,
+        });
+      case 'gather':
+      case 'gather*':
+      case 'gathered':
+        return this.layoutArray(node, {
+          columns: parseColumnSpec('c'),
+          style: MathStyle.Display,
+          rowSeparation: JOT,
+        });
+      case 'multline':
+      case 'multline*':
+        return this.layoutMultline(node);
+    }
+    const delimiters = MATRIX_DELIMITERS[envName];
+    if (delimiters) {
+      const isSmall = envName === 'smallmatrix';
+      const grid = this.layoutArray(node, {
+        style: isSmall ? MathStyle.Script : MathStyle.Text,
+        columnSeparation: isSmall ? 0.5 : 1,
+        arrayStretch: isSmall ? 0.5 : 1,
+      });
+      const height = (grid.height + grid.depth) / 2;
+      return createHList([
+        this.layoutDelimiter(delimiters[0], height),
+        grid,
+        this.layoutDelimiter(delimiters[1], height),
+      ]);
+    }
+    return this.layoutParagraphs(node.children);
+  }
+
+  // Lay the `&` separated cells of an environment out in a grid centred on
+  // the math axis.
+  layoutArray(node: LatexNode, options: Partial<ArrayLayoutOptions> = {}): Box {
+    const opts: ArrayLayoutOptions = {
+      ...{
+        columns: { aligns: [], rules: [0] },
+        style: MathStyle.Text,
+        columnSeparation: 1,
+        outerSeparation: false,
+        arrayStretch: 1,
+        rowSeparation: 0,
+        alignPairs: false,
+      },
+      ...options,
+    };
+    const { rows, hlinesAfter } = collectRows(node);
+    const fontSize = this.layoutState.fontSize;
+    const halfSeparation = (opts.columnSeparation * fontSize) / 2;
+    const ruleSeparation = fontSize * 0.2;
+    const rowSeparation = opts.rowSeparation * fontSize;
+    // like the \strut TeX puts into every row of an array
+    const strutHeight = fontSize * 1.2 * opts.arrayStretch * 0.7;
+    const strutDepth = fontSize * 1.2 * opts.arrayStretch * 0.3;
+
+    this.pushStyle(opts.style);
+    const cells = rows.map((row) =>
+      row.cells.map((cell, j) => {
+        // like amsmath, the right column of a pair starts after an empty
+        // atom, so a leading relation keeps its space
+        const isRight = opts.alignPairs && j % 2 === 1;
+        return this.layout(
+          isRight ? [createNode(NodeType.CBGroup), ...cell] : cell
+        );
+      })
+    );
+    this.popState();
+
+    const numOfColumns = Math.max(
+      opts.columns.aligns.length,
+      ...cells.map((row) => row.length)
+    );
+    const columnWidths: number[] = [];
+    for (let j = 0; j < numOfColumns; j++) {
+      columnWidths.push(Math.max(0, ...cells.map((row) => row[j]?.width || 0)));
+    }
+
+    // horizontal positions of the columns and the vertical rules
+    const children: PlacedBox[] = [];
+    const columnXs: number[] = [];
+    const ruleXs: number[] = [];
+    let x = 0;
+    for (let k = 0; k <= numOfColumns; k++) {
+      const isFirst = k === 0;
+      const isLast = k === numOfColumns;
+      // the two columns of a pair are set without separation
+      const isInPair = opts.alignPairs && k % 2 === 1 && !isLast;
+      if (isInPair) {
+        columnXs.push(x);
+        x += columnWidths[k];
+        continue;
+      }
+      if (!isFirst && (!isLast || opts.outerSeparation)) {
+        x += halfSeparation;
+      }
+      const numOfRules = opts.columns.rules[k] || 0;
+      for (let r = 0; r < numOfRules; r++) {
+        ruleXs.push(x);
+        x += RULE_THICKNESS + (r < numOfRules - 1 ? ruleSeparation : 0);
+      }
+      if (!isLast && (!isFirst || opts.outerSeparation)) {
+        x += halfSeparation;
+      }
+      if (!isLast) {
+        columnXs.push(x);
+        x += columnWidths[k];
+      }
+    }
+    const width = x;
+
+    // rows from the top, with \hline rules in between
+    let y = 0;
+    const addHlines = (count: number) => {
+      for (let r = 0; r < count; r++) {
+        const rule = createRuleBox(width, 0, RULE_THICKNESS);
+        children.push({ box: rule, x: 0, y });
+        y += RULE_THICKNESS + (r < count - 1 ? ruleSeparation : 0);
+      }
+    };
+    rows.forEach((row, i) => {
+      if (i > 0) {
+        y += rowSeparation;
+      }
+      addHlines(row.hlinesBefore);
+      const rowCells = cells[i];
+      const height = Math.max(strutHeight, ...rowCells.map((c) => c.height));
+      const depth = Math.max(strutDepth, ...rowCells.map((c) => c.depth));
+      y += height;
+      rowCells.forEach((cell, j) => {
+        const pairAlign = j % 2 === 0 ? 'r' : 'l';
+        const align = opts.alignPairs
+          ? pairAlign
+          : opts.columns.aligns[j] || 'c';
+        const space = columnWidths[j] - cell.width;
+        const offset = align === 'l' ? 0 : align === 'r' ? space : space / 2;
+        children.push({ box: cell, x: columnXs[j] + offset, y });
+      });
+      y += depth;
+    });
+    addHlines(hlinesAfter);
+    const height = y;
+    for (const ruleX of ruleXs) {
+      const rule = createRuleBox(RULE_THICKNESS, 0, height);
+      children.push({ box: rule, x: ruleX, y: 0 });
+    }
+
+    const grid = createHBox(children);
+    grid.width = width;
+    grid.depth = Math.max(grid.depth, height);
+    return centerOnAxis(grid, this.axisHeight());
+  }
+
+  // The first line of multline is flushed left, the last one right and the
+  // lines in between are centred.
+  layoutMultline(node: LatexNode): Box {
+    const { rows } = collectRows(node);
+    const fontSize = this.layoutState.fontSize;
+    const indent = fontSize;
+    const strut = createStrut(fontSize * 0.84, fontSize * 0.36);
+    this.pushStyle(MathStyle.Display);
+    const lines = rows.map((row) =>
+      createHList([strut, this.layout(row.cells.flat())])
+    );
+    this.popState();
+    const width = Math.max(0, ...lines.map((line) => line.width)) + indent;
+    const aligned = lines.map((line, i) => {
+      const space = width - line.width;
+      const isFirst = i === 0;
+      const isLast = i === lines.length - 1 && lines.length > 1;
+      const x = isFirst ? 0 : isLast ? space : space / 2;
+      const hbox = createHBox([{ box: line, x, y: 0 }]);
+      hbox.width = width;
+      return hbox;
+    });
+    const gaps = aligned.map(() => JOT * fontSize);
+    return centerOnAxis(createVList(aligned, gaps), this.axisHeight());
+  }
+
+  layoutParagraphs(nodes: LatexNode[]): Box {
+    const metrics = this.measureDummy();
+    const lineMargin = metrics.height * 0.5;
+    const paragraphMargin = metrics.height;
+    const boxes = nodes.map((node) => this.layoutNode(node));
+    const gaps = boxes.map(() => lineMargin + paragraphMargin);
+    return createVList(boxes, gaps);
+  }
+
+  layoutParagraph(node: LatexNode): Box {
+    if (node.nodeType !== NodeType.Paragraph) {
+      throw new Error('Invalid node type');
+    }
+    const metrics = this.measureDummy();
+    const lineMargin = metrics.height * 0.5;
+    const boxes = node.children.map((lineNode) => this.layoutNode(lineNode));
+    const gaps = boxes.map(() => lineMargin);
+    return createVList(boxes, gaps);
+  }
+
+  layoutText(
+    node: LatexNode,
+    text: string,
+    font: string | null = null,
+    style: string = ''
+  ): Box {
+    return this.layoutScripts(node, this.layoutGlyph(text, font, style));
+  }
+
+  layoutScript(node: LatexNode): Box {
+    this.pushStyle(scriptStyle(this.layoutState.style));
+    const box = this.layout(node.children);
+    this.popState();
+    return box;
+  }
+
+  // Attach the subscript and superscript of `node` to the right of `base`.
+  layoutScripts(
+    node: LatexNode,
+    base: Box,
+    options: Partial<ScriptLayoutOptions> = {}
+  ): Box {
+    const opts: ScriptLayoutOptions = {
+      ...{
+        italicCorrection: this.italicCorrectionOf(base),
+        followBase: false,
+      },
+      ...options,
+    };
+    if (!node.superscript && !node.subscript) {
+      return base;
+    }
+    const { fontSize, style } = this.layoutState;
+    const metrics = this.measureDummy(fontSize);
+    const scriptMetrics = this.measureDummy(
+      this.options.fontSize * STYLE_SCALES[scriptStyle(style)]
+    );
+    const children: PlacedBox[] = [{ box: base, x: 0, y: 0 }];
+    if (node.superscript) {
+      let y = scriptMetrics.height / 2 - metrics.height;
+      if (opts.followBase) {
+        y = Math.min(y, scriptMetrics.height / 2 - base.height);
+      }
+      children.push({
+        box: this.layoutNode(node.superscript),
+        x: base.width + opts.italicCorrection,
+        y,
+      });
+    }
+    if (node.subscript) {
+      let y = scriptMetrics.height / 2;
+      if (opts.followBase) {
+        y = Math.max(y, base.depth);
+      }
+      children.push({
+        box: this.layoutNode(node.subscript),
+        x: base.width,
+        y,
+      });
+    }
+    const hbox = createHBox(children);
+    hbox.width += fontSize * SCRIPT_SPACE;
+    return hbox;
+  }
+
+  // the ink of an italic letter past its advance width, which superscripts
+  // clear like in TeX
+  italicCorrectionOf(base: Box): number {
+    if (base.boxType !== BoxType.Glyph || base.fontStyle !== 'italic') {
+      return 0;
+    }
+    return measureText(base.text, base.fontFamily, base.fontSize)
+      .italicCorrection;
+  }
+
+  // Stack the subscript and superscript of `node` centred below and above
+  // `base`, like the limits of \sum in display style.
+  layoutLimits(node: LatexNode, base: Box): Box {
+    if (!node.superscript && !node.subscript) {
+      return base;
+    }
+    const fontSize = this.layoutState.fontSize;
+    const superscript = node.superscript && this.layoutNode(node.superscript);
+    const subscript = node.subscript && this.layoutNode(node.subscript);
+    const width = Math.max(
+      base.width,
+      superscript?.width || 0,
+      subscript?.width || 0
+    );
+    const children: PlacedBox[] = [
+      { box: base, x: (width - base.width) / 2, y: 0 },
+    ];
+    if (superscript) {
+      // TeX's \bigopspacing1 and \bigopspacing3
+      const gap = Math.max(
+        fontSize * 0.111,
+        fontSize * 0.2 - superscript.depth
+      );
+      children.push({
+        box: superscript,
+        x: (width - superscript.width) / 2,
+        y: -base.height - gap - superscript.depth,
+      });
+    }
+    if (subscript) {
+      // TeX's \bigopspacing2 and \bigopspacing4
+      const gap = Math.max(fontSize * 0.167, fontSize * 0.6 - subscript.height);
+      children.push({
+        box: subscript,
+        x: (width - subscript.width) / 2,
+        y: base.depth + gap + subscript.height,
+      });
+    }
+    const hbox = createHBox(children);
+    hbox.width = width;
+    return hbox;
+  }
+
+  // Operators like \sum take the display size of the KaTeX_Size fonts in
+  // display style and put their limits above and below, unless overridden by
+  // \limits or \nolimits.
+  layoutBigOperator(node: LatexNode, char: string): Box {
+    const isDisplay = this.layoutState.style === MathStyle.Display;
+    const isIntegral = integralOperators.includes(char);
+    const family = this.options.sizeFontFamilies[isDisplay ? 1 : 0];
+    const glyph = centerOnAxis(
+      this.layoutGlyph(char, family),
+      this.axisHeight()
+    );
+    const limits = node.limits ?? (isDisplay && !isIntegral);
+    let box: Box;
+    if (limits) {
+      box = this.layoutLimits(node, glyph);
+    } else {
+      const fontSize = this.layoutState.fontSize;
+      const italic = INTEGRAL_ITALIC_CORRECTIONS[isDisplay ? 1 : 0];
+      box = this.layoutScripts(node, glyph, {
+        italicCorrection: isIntegral ? italic * fontSize : 0,
+        followBase: true,
+      });
+    }
+    return box;
+  }
+
+  // Operator names set upright. Ones like \lim take limits above and below
+  // in display style, ones like \sin always take scripts.
+  layoutNamedOperator(
+    node: LatexNode,
+    name: string,
+    displayLimits: boolean = true
+  ): Box {
+    const isDisplay = this.layoutState.style === MathStyle.Display;
+    const glyph = this.layoutGlyph(name);
+    return node.limits ?? (displayLimits && isDisplay)
+      ? this.layoutLimits(node, glyph)
+      : this.layoutScripts(node, glyph);
+  }
+
+  layoutFraction(
+    node: LatexNode,
+    options: Partial<FractionLayoutOptions> = {}
+  ): Box {
+    const opts: FractionLayoutOptions = {
+      ...{
+        barThickness: RULE_THICKNESS,
+      },
+      ...options,
+    };
+    const style = opts.style || this.layoutState.style;
+    this.pushStyle(style);
+    const metrics = this.measureDummy();
+    const axis = this.axisHeight();
+    const thickness = opts.barThickness;
+    // without a bar the parts need more room to stay apart
+    const gap = metrics.height * (thickness > 0 ? 0.3 : 0.5);
+
+    this.pushStyle(opts.continued ? MathStyle.Display : fractionStyle(style));
+    let numerator = this.layoutNode(node.children[0]);
+    if (opts.continued) {
+      const strut = this.measureDummy();
+      numerator = createHList([
+        createStrut(strut.height, strut.height * 0.3),
+        numerator,
+      ]);
+    }
+    const denominator = this.layoutNode(node.children[1]);
+    this.popState();
+
+    const width =
+      Math.max(numerator.width, denominator.width) + metrics.width * 0.3;
+    const children: PlacedBox[] = [
+      {
+        box: numerator,
+        x: (width - numerator.width) / 2,
+        y: -axis - thickness / 2 - gap - numerator.depth,
+      },
+      {
+        box: denominator,
+        x: (width - denominator.width) / 2,
+        y: -axis + thickness / 2 + gap + denominator.height,
+      },
+    ];
+    if (thickness > 0) {
+      const bar = createRuleBox(width, thickness / 2, thickness / 2);
+      children.push({ box: bar, x: 0, y: -axis });
+    }
+    let fraction: Box = createHBox(children);
+    if (opts.leftDelimiter || opts.rightDelimiter) {
+      const height = Math.max(fraction.height - axis, fraction.depth + axis);
+      fraction = createHList([
+        this.layoutDelimiter(opts.leftDelimiter, height),
+        fraction,
+        this.layoutDelimiter(opts.rightDelimiter, height),
+      ]);
+    }
+    this.popState();
+    return this.layoutScripts(node, fraction);
+  }
+
+  layoutBinomial(node: LatexNode, style?: MathStyle): Box {
+    return this.layoutFraction(node, {
+      style,
+      barThickness: 0,
+      leftDelimiter: '(',
+      rightDelimiter: ')',
+    });
+  }
+
+  // \genfrac{left}{right}{thickness}{style}{numerator}{denominator}
+  layoutGeneralizedFraction(node: LatexNode): Box {
+    const [left, right, thickness, style, numerator, denominator] =
+      node.children;
+    const styles = [
+      MathStyle.Display,
+      MathStyle.Text,
+      MathStyle.Script,
+      MathStyle.ScriptScript,
+    ];
+    const fontSize = this.layoutState.fontSize;
+    const barThickness = parseDimension(nodeText(thickness), fontSize);
+    return this.layoutFraction(
+      { ...node, children: [numerator, denominator] },
+      {
+        style: styles[parseInt(nodeText(style))],
+        barThickness: barThickness ?? RULE_THICKNESS,
+        leftDelimiter: nodeText(left),
+        rightDelimiter: nodeText(right),
+      }
+    );
+  }
+
+  // A delimiter reaching `height` above and below the math axis, using the
+  // smallest glyph that is tall enough and strokes beyond the largest one.
+  layoutDelimiter(delimiter: string | undefined, height: number): Box {
+    const char = delimiter && delimiterMap[delimiter];
+    if (!char) {
+      return createKern(0);
+    }
+    const fontSize = this.layoutState.fontSize;
+    const axis = this.axisHeight();
+    // like TeX's \delimiterfactor and \delimitershortfall
+    const required = Math.max(
+      height * 2 * DELIMITER_FACTOR,
+      height * 2 - fontSize * DELIMITER_SHORTFALL
+    );
+    const families = [this.options.mainFontFamily];
+    if (sizeFontDelimiters.includes(char)) {
+      families.push(...this.options.sizeFontFamilies);
+    }
+    for (const family of families) {
+      if (!hasGlyphs(family, char)) {
+        continue;
+      }
+      const metrics = measureText(char, family, fontSize);
+      if (metrics.ascent + metrics.descent >= required) {
+        return centerOnAxis(this.layoutGlyph(char, family), axis);
+      }
+    }
+    return centerOnAxis(constructDelimiter(char, required, fontSize), axis);
+  }
+
+  // A delimiter of a fixed size, 1 for \big up to 4 for \Bigg.
+  layoutBigDelimiter(delimiter: string | undefined, size: number): Box {
+    const char = delimiter && delimiterMap[delimiter];
+    if (!char) {
+      return createKern(0);
+    }
+    const fontSize = this.layoutState.fontSize;
+    const axis = this.axisHeight();
+    const family = this.options.sizeFontFamilies[size - 1];
+    if (
+      family &&
+      sizeFontDelimiters.includes(char) &&
+      hasGlyphs(family, char)
+    ) {
+      return centerOnAxis(this.layoutGlyph(char, family), axis);
+    }
+    const height = BIG_DELIMITER_HEIGHTS[size - 1] * fontSize;
+    return centerOnAxis(constructDelimiter(char, height, fontSize), axis);
+  }
+
+  layoutLeftRight(node: LatexNode): Box {
+    const [left, ...rest] = node.children;
+    const right = rest.pop();
+    const isMiddle = (child: LatexNode) =>
+      child.token?.tokenType === TokenType.Middle;
+    const contentNodes = rest.filter((child) => !isMiddle(child));
+    const contentBoxes = new Map<LatexNode, Box>();
+    this.layoutList(contentNodes).forEach((box, i) => {
+      contentBoxes.set(contentNodes[i], box);
+    });
+    const content = createHList([...contentBoxes.values()]);
+    const axis = this.axisHeight();
+    const height = Math.max(content.height - axis, content.depth + axis);
+    const delimiter = (child: LatexNode | undefined) =>
+      this.layoutDelimiter(child?.token?.token, height);
+
+    const boxes = [delimiter(left)];
+    for (const child of rest) {
+      const box = isMiddle(child)
+        ? delimiter(child.children[0])
+        : contentBoxes.get(child)!;
+      boxes.push(box);
+    }
+    boxes.push(delimiter(right));
+    return this.layoutScripts(node, createHList(boxes));
+  }
+
+  // \sqrt with an optional index. The radical sign is the smallest of the
+  // KaTeX_Main and KaTeX_Size glyphs that covers the content, or a drawn one
+  // for even taller content.
+  layoutSquareRoot(node: LatexNode): Box {
+    const { fontSize, style } = this.layoutState;
+    const content = this.layout(node.children);
+    const thickness = fontSize * SURD_RULE_THICKNESS;
+    // TeX puts a quarter of the x-height (display style) or the rule
+    // thickness over the content
+    const phi = style === MathStyle.Display ? fontSize * 0.431 : thickness;
+    const clearance = thickness + phi / 4;
+    const totalHeight = content.height + content.depth + clearance + thickness;
+
+    const families = [
+      this.options.mainFontFamily,
+      ...this.options.sizeFontFamilies,
+    ];
+    const size = RADICAL_HEIGHTS.findIndex(
+      (height) => height * fontSize >= totalHeight
+    );
+    let surd: Box;
+    if (size >= 0 && families[size] && hasGlyphs(families[size], '√')) {
+      surd = this.layoutGlyph('√', families[size]);
+    } else {
+      surd = constructRadical(totalHeight, fontSize);
+    }
+    // the vinculum continues from the top of the radical sign
+    const top = -Math.max(
+      content.height + clearance + thickness,
+      surd.height + surd.depth - content.depth
+    );
+    const surdY = top + surd.height;
+    const padding = fontSize * 0.05;
+    const rule = createRuleBox(content.width + padding * 2, 0, thickness);
+    const radical = createHBox([
+      { box: surd, x: 0, y: surdY },
+      { box: rule, x: surd.width, y: top },
+      { box: content, x: surd.width + padding, y: 0 },
+    ]);
+
+    const index = node.optionalArgs?.[0];
+    if (!index) {
+      return this.layoutScripts(node, radical);
+    }
+    // like TeX's \root, the index sits in the crook of the radical sign,
+    // 5mu from the left and raised to 60% of its height
+    this.pushStyle(MathStyle.ScriptScript);
+    const indexBox = this.layout(index.children);
+    this.popState();
+    const mu = fontSize / 18;
+    const indexX = 5 * mu;
+    const radicalX = Math.max(0, indexX + indexBox.width - 10 * mu);
+    const raise = 0.6 * (radical.height - radical.depth);
+    const root = createHBox([
+      { box: indexBox, x: indexX, y: -raise - indexBox.depth },
+      { box: radical, x: radicalX, y: 0 },
+    ]);
+    return this.layoutScripts(node, root);
+  }
+}
+
+export function placeBox(box: Box, options: RenderOptions): Placement {
+  const padding = options.padding;
+  const contentHeight = box.height + box.depth;
+  let width = options.width;
+  let height = options.height;
+  if (options.autoSize) {
+    width = Math.ceil(box.width + padding * 2);
+    height =
+      options.verticalAlign === 'baseline'
+        ? Math.ceil(Math.max(box.height, box.depth) * 2 + padding * 2)
+        : Math.ceil(contentHeight + padding * 2);
+  }
+
+  const x =
+    options.horizontalAlign === 'center' ? (width - box.width) / 2 : padding;
+  let y: number;
+  switch (options.verticalAlign) {
+    case 'top':
+      y = padding + box.height;
+      break;
+    case 'baseline':
+      y = height / 2;
+      break;
+    default:
+      y = (height - contentHeight) / 2 + box.height;
+  }
+  return { width, height, x, y };
+}
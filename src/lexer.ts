@@ -22,17 +22,21 @@ export const simpleCharMap: { [key: string]: TokenType } = {
   '>': TokenType.GreaterThan,
   '<': TokenType.LessThan,
   '@': TokenType.At,
+  '&': TokenType.Ampersand,
 };
 
 export class Lexer {
   private input: string;
   private index: number;
+  // offset where the current token starts
+  private tokenStart: number;
   private token: string;
   private tokenType: TokenType;
 
   constructor(input: string) {
     this.input = input;
     this.index = 0;
+    this.tokenStart = 0;
     this.token = '';
     this.tokenType = TokenType.Unknown;
   }
@@ -45,12 +49,54 @@ export class Lexer {
     return {
       token: this.token,
       tokenType: this.tokenType,
+      start: this.tokenStart,
+      end: this.index,
+      spaceAfter:
+        this.input[this.index] === ' ' || this.input[this.index] === '\n',
     };
   }
 
+  // Read a brace group as raw text, e.g. the column specification of an
+  // array, located between the braces. Returns null when the input doesn't
+  // continue with a group.
+  public readGroup(): Token | null {
+    let index = this.index;
+    while (this.input[index] === ' ' || this.input[index] === '\n') {
+      index++;
+    }
+    if (this.input[index] !== '{') {
+      return null;
+    }
+    const start = index + 1;
+    let depth = 0;
+    for (; index < this.input.length; index++) {
+      const char = this.input[index];
+      if (char === '\\') {
+        index++;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}') {
+        depth--;
+        if (depth === 0) {
+          this.index = index + 1;
+          return {
+            token: this.input.slice(start, index),
+            tokenType: TokenType.RawText,
+            start,
+            end: index,
+          };
+        }
+      }
+    }
+    return null;
+  }
+
   public nextToken(): void {
     this.token = '';
+    // only whitespace left, so the loop below finds no token
+    this.tokenType = TokenType.EOF;
     while (this.index < this.input.length) {
+      this.tokenStart = this.index;
       const char = this.input[this.index];
       if (char === ' ') {
         this.index++;
@@ -77,6 +123,14 @@ export class Lexer {
         }
         this.index++;
         this.token = char;
+        const symbol = this.input[this.index];
+        if (symbol !== undefined && !symbol.match(/[a-zA-Z]/)) {
+          // control symbols like \{, \| or \, consist of a single character
+          this.token += symbol;
+          this.index++;
+          this.tokenType = getTokenTypeFromCommand(this.token);
+          break;
+        }
         while (this.index < this.input.length) {
           const nextChar = this.input[this.index];
           if (nextChar.match(/[a-zA-Z]/)) {
@@ -117,10 +171,17 @@ export class Lexer {
         break;
       }
     }
+    if (this.tokenType === TokenType.EOF) {
+      this.tokenStart = this.index;
+    }
   }
 }
 
+const commandTokenTypes = new Set<string>(Object.values(TokenType));
+
 function getTokenTypeFromCommand(command: string): TokenType {
-  // TODO: check if the command is a valid LaTeX command
+  if (!commandTokenTypes.has(command)) {
+    return TokenType.Unknown;
+  }
   return command as TokenType;
 }
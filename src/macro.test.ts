@@ -0,0 +1,84 @@
+import { Token } from './ast.ts';
+import { Lexer } from './lexer.ts';
+import { MacroExpander, MacroMap } from './macro.ts';
+import { ParseOptions, parseLatex } from './parser.ts';
+
+// the tokens of the first line of `latex`
+function tokensOf(latex: string, options: Partial<ParseOptions> = {}) {
+  const line = parseLatex(latex, options).children[0].children[0].children[0];
+  return line.children.map((child) => child.token?.token);
+}
+
+function expanderOf(latex: string, macros: MacroMap) {
+  const report = (description: string, token: Token) => {
+    throw new Error(`${description} at ${token.token}`);
+  };
+  return new MacroExpander(new Lexer(latex), macros, 1000, report);
+}
+
+describe('macros', () => {
+  test('expand the macros option', () => {
+    expect(tokensOf('\\R + 1', { macros: { '\\R': 'x^2' } })).toEqual([
+      'x',
+      '+',
+      '1',
+    ]);
+  });
+
+  test('substitute parameters of \\newcommand', () => {
+    expect(tokensOf('\\newcommand{\\pair}[2]{#2+#1}\\pair{a}{b}')).toEqual([
+      'b',
+      '+',
+      'a',
+    ]);
+  });
+
+  test('take the default of an optional first parameter', () => {
+    const definition = '\\newcommand{\\f}[2][x]{#1#2}';
+    expect(tokensOf(`${definition}\\f{y}`)).toEqual(['x', 'y']);
+    expect(tokensOf(`${definition}\\f[z]{y}`)).toEqual(['z', 'y']);
+  });
+
+  test('substitute parameters of \\def', () => {
+    expect(tokensOf('\\def\\sq#1{#1^2}\\sq{y}')).toEqual(['y']);
+  });
+
+  test('stop recursive macros', () => {
+    expect(() => parseLatex('\\def\\a{\\a}\\a')).toThrow(
+      'Too many macro expansions'
+    );
+  });
+
+  test('report parameters beyond the declared ones', () => {
+    expect(() => parseLatex('\\newcommand{\\foo}{#1}\\foo')).toThrow(
+      'Invalid parameter #1: expected no parameters'
+    );
+    expect(() => parseLatex('\\newcommand{\\foo}[1]{#2}\\foo{x}')).toThrow(
+      'Invalid parameter #2: expected #1'
+    );
+    const tolerant = { throwOnError: false };
+    expect(tokensOf('\\newcommand{\\foo}[1]{#1#2}\\foo{x}', tolerant)).toEqual([
+      'x',
+    ]);
+  });
+
+  test('keep the spaces of raw groups read back from macro tokens', () => {
+    const expander = expanderOf('\\g', { '\\g': 'x{a  b \\alpha c}' });
+    expander.nextToken();
+    expect(expander.currentToken().token).toBe('x');
+    expect(expander.readGroup()?.token).toBe('a b \\alpha c');
+  });
+
+  test('pass \\text through unchanged', () => {
+    const rawArgsOf = (latex: string) => {
+      const line = parseLatex(latex).children[0].children[0].children[0];
+      return line.children.map((child) => child.rawArgs?.[0]);
+    };
+    expect(rawArgsOf('\\newcommand{\\t}[1]{\\text{#1}}\\t{a b}')).toEqual([
+      'a b',
+    ]);
+    expect(rawArgsOf('\\newcommand{\\st}{\\text{ such that }}x\\st y')).toEqual(
+      [undefined, ' such that ', undefined]
+    );
+  });
+});
@@ -0,0 +1,335 @@
+import { Token, TokenType } from './ast.ts';
+import { Lexer } from './lexer.ts';
+
+// Macros given up front, like { '\\R': '\\mathbb{R}' }. `#1` to `#9` in the
+// body are the parameters.
+export type MacroMap = { [name: string]: string };
+
+type Macro = {
+  numOfParams: number;
+  // default of the first parameter, which makes it optional
+  defaultArg: Token[] | null;
+  body: Token[];
+};
+
+type ErrorReporter = (
+  description: string,
+  token: Token,
+  expected?: string | null
+) => void;
+
+// Sits between the lexer and the parser, handles macro definitions and
+// replaces macros with their expansion. Definitions are global and not
+// scoped to the group they appear in.
+export class MacroExpander {
+  private macros = new Map<string, Macro>();
+  // tokens to read before continuing with the lexer, the next one last
+  private pending: Token[] = [];
+  private token: Token = { token: '', tokenType: TokenType.Unknown };
+  private numOfExpansions = 0;
+
+  constructor(
+    private lexer: Lexer,
+    macros: MacroMap,
+    // maximum number of expansions, which stops recursive macros
+    private maxExpand: number,
+    private report: ErrorReporter
+  ) {
+    for (const [name, body] of Object.entries(macros)) {
+      const tokens = tokenize(body);
+      this.macros.set(name, {
+        numOfParams: countParams(tokens),
+        defaultArg: null,
+        body: tokens,
+      });
+    }
+  }
+
+  public hasMoreTokens(): boolean {
+    return this.pending.length > 0 || this.lexer.hasMoreTokens();
+  }
+
+  currentToken(): Token {
+    return { ...this.token };
+  }
+
+  public nextToken(): void {
+    for (;;) {
+      const token = this.readToken();
+      switch (token.tokenType) {
+        case TokenType.NewCommand:
+        case TokenType.RenewCommand:
+        case TokenType.ProvideCommand:
+          this.defineCommand(token);
+          continue;
+        case TokenType.Def:
+          this.def(token);
+          continue;
+      }
+      const macro =
+        token.token.startsWith('\\') && this.macros.get(token.token);
+      if (macro) {
+        this.expand(token, macro);
+        continue;
+      }
+      this.token = token;
+      return;
+    }
+  }
+
+  // Read a brace group as raw text, see `Lexer.readGroup`.
+  public readGroup(): Token | null {
+    if (this.pending.length === 0) {
+      return this.lexer.readGroup();
+    }
+    if (this.peekToken().tokenType !== TokenType.LBrace) {
+      return null;
+    }
+    const open = this.readToken();
+    const tokens = this.readBalanced(TokenType.RBrace);
+    const text = joinTokens(tokens);
+    return {
+      token: open.spaceAfter ? ` ${text}` : text,
+      tokenType: TokenType.RawText,
+      start: tokens[0]?.start ?? open.end,
+      end: tokens[tokens.length - 1]?.end ?? open.end,
+    };
+  }
+
+  // Read `token` again as the next token.
+  public unreadToken(token: Token) {
+    this.pending.push(token);
+  }
+
+  private readToken(): Token {
+    const token = this.pending.pop();
+    if (token) {
+      return token;
+    }
+    this.lexer.nextToken();
+    return this.lexer.currentToken();
+  }
+
+  private peekToken(): Token {
+    const token = this.readToken();
+    this.pending.push(token);
+    return token;
+  }
+
+  // Read the tokens up to `closing` outside of braces, which is consumed but
+  // not returned.
+  private readBalanced(closing: TokenType): Token[] {
+    const tokens: Token[] = [];
+    let depth = 0;
+    for (;;) {
+      const token = this.readToken();
+      if (token.tokenType === TokenType.EOF) {
+        const expected = closing === TokenType.RBrace ? "'}'" : "']'";
+        this.report('Unclosed macro argument', token, expected);
+        return tokens;
+      }
+      if (depth === 0 && token.tokenType === closing) {
+        return tokens;
+      }
+      if (token.tokenType === TokenType.LBrace) {
+        depth++;
+      } else if (token.tokenType === TokenType.RBrace) {
+        depth--;
+      }
+      tokens.push(token);
+    }
+  }
+
+  // a single token or the contents of a brace group, or null at the end
+  private readArgument(): Token[] | null {
+    const token = this.readToken();
+    if (token.tokenType === TokenType.EOF) {
+      this.pending.push(token);
+      return null;
+    }
+    if (token.tokenType === TokenType.LBrace) {
+      return this.readBalanced(TokenType.RBrace);
+    }
+    return [token];
+  }
+
+  private readOptionalArgument(): Token[] | null {
+    if (this.peekToken().tokenType !== TokenType.LBracket) {
+      return null;
+    }
+    this.readToken();
+    return this.readBalanced(TokenType.RBracket);
+  }
+
+  private expand(token: Token, macro: Macro) {
+    this.numOfExpansions++;
+    if (this.numOfExpansions > this.maxExpand) {
+      this.report('Too many macro expansions; is a macro recursive?', token);
+      // drop the runaway expansion and go on with the rest of the input
+      this.pending = [];
+      this.numOfExpansions = 0;
+      return;
+    }
+    const args: Token[][] = [];
+    for (let i = 0; i < macro.numOfParams; i++) {
+      let arg: Token[] | null;
+      if (i === 0 && macro.defaultArg) {
+        arg = this.readOptionalArgument() ?? macro.defaultArg;
+      } else {
+        arg = this.readArgument();
+      }
+      if (!arg) {
+        const expected = `an argument of '${token.token}'`;
+        this.report('Missing argument', this.peekToken(), expected);
+      }
+      args.push(arg || []);
+    }
+    // the expansion is located at the macro in the source
+    const located = (bodyToken: Token): Token => ({
+      ...bodyToken,
+      start: token.start,
+      end: token.end,
+    });
+    const expansion: Token[] = [];
+    const body = macro.body;
+    for (let i = 0; i < body.length; i++) {
+      const param = body[i + 1];
+      if (body[i].token === '#' && param?.tokenType === TokenType.Number) {
+        // parameters beyond the arguments, like #0, expand to nothing
+        expansion.push(...(args[Number(param.token[0]) - 1] ?? []));
+        if (param.token.length > 1) {
+          expansion.push(located({ ...param, token: param.token.slice(1) }));
+        }
+        i++;
+      } else {
+        expansion.push(located(body[i]));
+      }
+    }
+    this.pending.push(...expansion.reverse());
+  }
+
+  // \newcommand{\name}[n][default]{body}, also \renewcommand and
+  // \providecommand
+  private defineCommand(command: Token) {
+    let nameToken = this.readToken();
+    if (nameToken.tokenType === TokenType.LBrace) {
+      nameToken = this.readBalanced(TokenType.RBrace)[0] || nameToken;
+    }
+    if (!nameToken.token.startsWith('\\')) {
+      this.report(
+        `Missing command name of ${command.token}`,
+        nameToken,
+        'a command'
+      );
+      return;
+    }
+    const name = nameToken.token;
+    const count = this.readOptionalArgument();
+    const numOfParams = count ? parseInt(joinTokens(count)) : 0;
+    if (isNaN(numOfParams) || numOfParams < 0 || numOfParams > 9) {
+      this.report('Invalid number of parameters', nameToken, 'a digit');
+      return;
+    }
+    const defaultArg = numOfParams > 0 ? this.readOptionalArgument() : null;
+    const body = this.readArgument() || [];
+    this.checkParams(body, numOfParams);
+
+    const isDefined =
+      this.macros.has(name) || nameToken.tokenType !== TokenType.Unknown;
+    if (command.tokenType === TokenType.ProvideCommand && isDefined) {
+      return;
+    }
+    if (command.tokenType === TokenType.NewCommand && isDefined) {
+      this.report(
+        `Command ${name} is already defined, use \\renewcommand`,
+        nameToken
+      );
+    }
+    if (command.tokenType === TokenType.RenewCommand && !isDefined) {
+      this.report(
+        `Command ${name} is not defined, use \\newcommand`,
+        nameToken
+      );
+    }
+    this.macros.set(name, { numOfParams, defaultArg, body });
+  }
+
+  // \def\name#1#2{body}
+  private def(command: Token) {
+    const nameToken = this.readToken();
+    if (!nameToken.token.startsWith('\\')) {
+      this.report(
+        `Missing command name of ${command.token}`,
+        nameToken,
+        'a command'
+      );
+      return;
+    }
+    let numOfParams = 0;
+    while (this.peekToken().tokenType !== TokenType.LBrace) {
+      const hash = this.readToken();
+      const param = this.readToken();
+      if (hash.token !== '#' || param.token !== String(numOfParams + 1)) {
+        this.report('Invalid parameter text', param, `#${numOfParams + 1}`);
+        return;
+      }
+      numOfParams++;
+    }
+    this.readToken();
+    const body = this.readBalanced(TokenType.RBrace);
+    this.checkParams(body, numOfParams);
+    this.macros.set(nameToken.token, { numOfParams, defaultArg: null, body });
+  }
+
+  // report `#n` in a macro body beyond the parameters of the macro
+  private checkParams(body: Token[], numOfParams: number) {
+    body.forEach((token, i) => {
+      const param = body[i + 1];
+      if (token.token !== '#' || param?.tokenType !== TokenType.Number) {
+        return;
+      }
+      const n = Number(param.token[0]);
+      if (n < 1 || n > numOfParams) {
+        const expected =
+          numOfParams === 0
+            ? 'no parameters'
+            : numOfParams === 1
+            ? '#1'
+            : `#1 to #${numOfParams}`;
+        this.report(`Invalid parameter #${n}`, param, expected);
+      }
+    });
+  }
+}
+
+function tokenize(text: string): Token[] {
+  const lexer = new Lexer(text);
+  const tokens: Token[] = [];
+  while (lexer.hasMoreTokens()) {
+    lexer.nextToken();
+    const token = lexer.currentToken();
+    if (token.tokenType !== TokenType.EOF) {
+      tokens.push(token);
+    }
+  }
+  return tokens;
+}
+
+// the highest `#n` in a macro body
+function countParams(body: Token[]): number {
+  let count = 0;
+  body.forEach((token, i) => {
+    const param = body[i + 1];
+    if (token.token === '#' && param?.tokenType === TokenType.Number) {
+      count = Math.max(count, Number(param.token[0]));
+    }
+  });
+  return count;
+}
+
+// the text of tokens with the spaces that followed them in the source
+function joinTokens(tokens: Token[]): string {
+  return tokens
+    .map((token) => (token.spaceAfter ? `${token.token} ` : token.token))
+    .join('');
+}
@@ -0,0 +1,55 @@
+import { renderLatexToMathML } from './mathml.ts';
+
+// the content of the <math> element
+function mathml(latex: string): string {
+  return renderLatexToMathML(latex).replace(/^<math[^>]*>|<\/math>$/g, '');
+}
+
+describe('renderLatexToMathML', () => {
+  test('wraps the formula in a math element', () => {
+    expect(renderLatexToMathML('x', { displayMode: false })).toBe(
+      '<math xmlns="http://www.w3.org/1998/Math/MathML" display="inline"><mi>x</mi></math>'
+    );
+  });
+
+  test('writes scripts, fractions and roots', () => {
+    expect(mathml('x^2')).toBe('<msup><mi>x</mi><mn>2</mn></msup>');
+    expect(mathml('\\frac{a}{b}')).toBe('<mfrac><mi>a</mi><mi>b</mi></mfrac>');
+    expect(mathml('\\sqrt[3]{x}')).toBe('<mroot><mi>x</mi><mn>3</mn></mroot>');
+  });
+
+  test('puts limits of big operators under and over them', () => {
+    expect(mathml('\\sum_{i=1}^n i')).toBe(
+      '<mrow><munderover><mo largeop="true">∑</mo><mrow><mi>i</mi><mo>=</mo><mn>1</mn></mrow><mi>n</mi></munderover><mi>i</mi></mrow>'
+    );
+  });
+
+  test('writes stretchy fences around delimited content', () => {
+    expect(mathml('\\left(x\\right)')).toBe(
+      '<mrow><mo fence="true" stretchy="true">(</mo><mi>x</mi><mo fence="true" stretchy="true">)</mo></mrow>'
+    );
+    expect(mathml('\\begin{pmatrix}a&b\\end{pmatrix}')).toBe(
+      '<mrow><mo fence="true" stretchy="true">(</mo><mtable columnalign="center center"><mtr><mtd><mi>a</mi></mtd><mtd><mi>b</mi></mtd></mtr></mtable><mo fence="true" stretchy="true">)</mo></mrow>'
+    );
+  });
+
+  test('leaves out empty delimiters', () => {
+    expect(mathml('\\begin{matrix}a&b\\end{matrix}')).toBe(
+      '<mtable columnalign="center center"><mtr><mtd><mi>a</mi></mtd><mtd><mi>b</mi></mtd></mtr></mtable>'
+    );
+    expect(mathml('\\genfrac{}{}{0pt}{}{n}{k}')).toBe(
+      '<mfrac linethickness="0pt"><mi>n</mi><mi>k</mi></mfrac>'
+    );
+    expect(mathml('\\genfrac{(}{.}{0pt}{}{n}{k}')).toBe(
+      '<mrow><mo fence="true" stretchy="true">(</mo><mfrac linethickness="0pt"><mi>n</mi><mi>k</mi></mfrac><mo fence="true" stretchy="true"></mo></mrow>'
+    );
+  });
+
+  test('keeps text and the source annotation', () => {
+    expect(mathml('\\text{a < b}')).toBe('<mtext>a &lt; b</mtext>');
+    expect(mathml('x')).toBe('<mi>x</mi>');
+    expect(renderLatexToMathML('x', { annotation: true })).toContain(
+      '<annotation encoding="application/x-tex">x</annotation>'
+    );
+  });
+});
@@ -0,0 +1,573 @@
+import {
+  ArrayRows,
+  MATRIX_DELIMITERS,
+  collectRows,
+  parseColumnSpec,
+} from './array.ts';
+import { LatexNode, NodeType, TokenType, nodeText } from './ast.ts';
+import { BIG_DELIMITER_HEIGHTS } from './delimiter.ts';
+import { DefaultParseOptions, ParseOptions, parseLatex } from './parser.ts';
+import { AtomClass, atomOf, spaceWidths } from './spacing.ts';
+import {
+  accentMap,
+  bigDelimiterSizes,
+  bigOperatorMap,
+  delimiterChar,
+  delimiterMap,
+  integralOperators,
+  lowercaseGreekMap,
+  symbolMap,
+  uppercaseGreekMap,
+} from './symbols.ts';
+import { Attributes, element, parentElement } from './xml.ts';
+
+export type MathMLOptions = ParseOptions & {
+  // display="block" like the display style of the images, otherwise inline
+  displayMode: boolean;
+  // keep the source in <semantics><annotation encoding="application/x-tex">
+  annotation: boolean;
+};
+
+export const DefaultMathMLOptions: MathMLOptions = {
+  ...DefaultParseOptions,
+  displayMode: true,
+  annotation: false,
+};
+
+// mathvariant of the math alphabet commands
+const MATH_VARIANTS: { [key: string]: string } = {
+  [TokenType.MathRm]: 'normal',
+  [TokenType.MathIt]: 'italic',
+  [TokenType.MathBf]: 'bold',
+  [TokenType.BoldSymbol]: 'bold-italic',
+  [TokenType.MathBb]: 'double-struck',
+  [TokenType.MathCal]: 'script',
+  [TokenType.MathFrak]: 'fraktur',
+  [TokenType.MathScr]: 'script',
+  [TokenType.MathSf]: 'sans-serif',
+  [TokenType.MathTt]: 'monospace',
+};
+
+// accents that aren't in `accentMap`
+const OVER_ACCENTS: { [key: string]: string } = {
+  [TokenType.Vec]: '→',
+  [TokenType.WideHat]: '^',
+  [TokenType.WideTilde]: '~',
+  [TokenType.Overline]: '‾',
+  [TokenType.OverRightArrow]: '→',
+  [TokenType.OverLeftArrow]: '←',
+};
+
+// Converts the LaTeX AST into Presentation MathML.
+class MathMLSerializer {
+  // mathvariant set by the enclosing math alphabet command
+  private variant: string | null = null;
+
+  serializeDocument(document: LatexNode): string {
+    const environment = document.children[0];
+    const lines = environment.children.flatMap(
+      (paragraph) => paragraph.children
+    );
+    if (lines.length === 1) {
+      return this.serializeRow(lines[0].children);
+    }
+    // lines broken with \\ or empty lines stack up
+    return parentElement(
+      'mtable',
+      { columnalign: 'left' },
+      lines.map((line) => this.tableRow([this.serializeRow(line.children)]))
+    );
+  }
+
+  // An mrow of the nodes, or the element of a single node by itself.
+  serializeRow(nodes: LatexNode[]): string {
+    const children = this.serializeList(nodes);
+    if (children.length === 1) {
+      return children[0];
+    }
+    return parentElement('mrow', {}, children);
+  }
+
+  // \color applies to the nodes after it up to the end of the group.
+  serializeList(nodes: LatexNode[]): string[] {
+    const children: string[] = [];
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i];
+      if (node.token?.tokenType === TokenType.Color) {
+        const rest = this.serializeList(nodes.slice(i + 1));
+        children.push(
+          parentElement('mstyle', { mathcolor: node.rawArgs![0] }, rest)
+        );
+        break;
+      }
+      children.push(this.serializeNode(node));
+    }
+    return children;
+  }
+
+  serializeNode(node: LatexNode): string {
+    switch (node.nodeType) {
+      case NodeType.Plain:
+        return this.serializePlain(node);
+      case NodeType.Error:
+        return parentElement('merror', {}, [
+          element('mtext', {}, node.token!.token),
+        ]);
+      case NodeType.PGroup:
+        return this.withScripts(node, this.fenced(node.children, '(', ')'));
+      case NodeType.BGroup:
+        return this.withScripts(node, this.fenced(node.children, '[', ']'));
+      case NodeType.CBGroup:
+        return this.withScripts(node, this.serializeRow(node.children));
+      case NodeType.LeftRight:
+        return this.withScripts(node, this.serializeLeftRight(node));
+      case NodeType.Environment:
+        return this.serializeEnvironment(node);
+      case NodeType.Line:
+        return this.serializeRow(node.children);
+    }
+    return parentElement('mrow', {}, []);
+  }
+
+  serializePlain(node: LatexNode): string {
+    const token = node.token!;
+    const tokenType = token.tokenType;
+    switch (tokenType) {
+      case TokenType.Alphabet:
+        return this.withScripts(node, this.serializeLetters(token.token));
+      case TokenType.Number:
+        return this.withScripts(node, this.tokenElement('mn', token.token));
+      case TokenType.Text:
+        return this.withScripts(node, element('mtext', {}, node.rawArgs![0]));
+      case TokenType.Limit:
+      case TokenType.Sin:
+      case TokenType.Cos:
+      case TokenType.Tan:
+      case TokenType.Log: {
+        const name = element('mi', {}, token.token.slice(1));
+        const limits = node.limits ?? tokenType === TokenType.Limit;
+        return this.withScripts(node, name, limits);
+      }
+      case TokenType.Frac:
+      case TokenType.Dfrac:
+      case TokenType.Tfrac:
+      case TokenType.Cfrac:
+        return this.withScripts(node, this.serializeFraction(node));
+      case TokenType.Binom:
+      case TokenType.Dbinom:
+      case TokenType.Tbinom:
+        return this.withScripts(node, this.serializeFraction(node, '(', ')'));
+      case TokenType.Genfrac:
+        return this.withScripts(node, this.serializeGeneralizedFraction(node));
+      case TokenType.SquareRoot: {
+        const radicand = this.serializeRow(node.children);
+        const index = node.optionalArgs?.[0];
+        const root = index
+          ? parentElement('mroot', {}, [
+              radicand,
+              this.serializeRow(index.children),
+            ])
+          : parentElement('msqrt', {}, [radicand]);
+        return this.withScripts(node, root);
+      }
+      case TokenType.Underline: {
+        const base = this.serializeRow(node.children);
+        const line = element('mo', { stretchy: 'true' }, '_');
+        const under = parentElement('munder', { accentunder: 'true' }, [
+          base,
+          line,
+        ]);
+        return this.withScripts(node, under);
+      }
+      case TokenType.MathRm:
+      case TokenType.MathIt:
+      case TokenType.MathBf:
+      case TokenType.BoldSymbol:
+      case TokenType.MathBb:
+      case TokenType.MathCal:
+      case TokenType.MathFrak:
+      case TokenType.MathScr:
+      case TokenType.MathSf:
+      case TokenType.MathTt: {
+        const variant = this.variant;
+        this.variant = MATH_VARIANTS[tokenType];
+        const content = this.serializeRow(node.children);
+        this.variant = variant;
+        return this.withScripts(node, content);
+      }
+      case TokenType.TextColor: {
+        const content = parentElement(
+          'mstyle',
+          { mathcolor: node.rawArgs![0] },
+          [this.serializeRow(node.children)]
+        );
+        return this.withScripts(node, content);
+      }
+      case TokenType.ColorBox:
+      case TokenType.FColorBox: {
+        const args = node.rawArgs!;
+        const attributes: Attributes = {
+          mathbackground: args[args.length - 2],
+          lspace: '0.3em',
+          width: '+0.6em',
+        };
+        if (args.length > 2) {
+          attributes.style = `border: 1px solid ${args[0]}`;
+        }
+        const text = element('mtext', {}, args[args.length - 1]);
+        return this.withScripts(
+          node,
+          parentElement('mpadded', attributes, [text])
+        );
+      }
+      case TokenType.Hspace:
+        return element('mspace', { width: toMathMLLength(node.rawArgs![0]) });
+      case TokenType.Color:
+        // handled by `serializeList`
+        return parentElement('mrow', {}, []);
+    }
+
+    if (lowercaseGreekMap[tokenType]) {
+      const char = lowercaseGreekMap[tokenType];
+      return this.withScripts(node, this.tokenElement('mi', char));
+    }
+    if (uppercaseGreekMap[tokenType]) {
+      // capital Greek is upright like in TeX
+      const char = uppercaseGreekMap[tokenType];
+      const attributes: Attributes = this.variant
+        ? {}
+        : { mathvariant: 'normal' };
+      return this.withScripts(node, this.tokenElement('mi', char, attributes));
+    }
+    if (spaceWidths[tokenType] !== undefined) {
+      const width = spaceWidths[tokenType] / 18;
+      return element('mspace', { width: `${round(width)}em` });
+    }
+    if (bigOperatorMap[tokenType]) {
+      const char = bigOperatorMap[tokenType];
+      const limits = node.limits ?? !integralOperators.includes(char);
+      const operator = element('mo', { largeop: 'true' }, char);
+      return this.withScripts(node, operator, limits);
+    }
+    if (accentMap[tokenType] || OVER_ACCENTS[tokenType]) {
+      const char = accentMap[tokenType] || OVER_ACCENTS[tokenType];
+      const isWide = !accentMap[tokenType] && tokenType !== TokenType.Vec;
+      const accent = element(
+        'mo',
+        { stretchy: isWide ? 'true' : 'false' },
+        char
+      );
+      const over = parentElement('mover', { accent: 'true' }, [
+        this.serializeRow(node.children),
+        accent,
+      ]);
+      return this.withScripts(node, over);
+    }
+    if (bigDelimiterSizes[tokenType]) {
+      const char = delimiterChar(node.children[0]);
+      const size = BIG_DELIMITER_HEIGHTS[bigDelimiterSizes[tokenType] - 1];
+      const delimiter = element(
+        'mo',
+        {
+          fence: 'false',
+          stretchy: 'true',
+          minsize: `${size}em`,
+          maxsize: `${size}em`,
+        },
+        char
+      );
+      return this.withScripts(node, delimiter);
+    }
+    const char = symbolMap[tokenType] || delimiterMap[tokenType] || token.token;
+    const isOrdinary = atomOf(node)?.left === AtomClass.Ord;
+    if (
+      isOrdinary &&
+      tokenType !== TokenType.Character &&
+      !delimiterMap[tokenType]
+    ) {
+      return this.withScripts(node, this.tokenElement('mi', char));
+    }
+    return this.withScripts(node, element('mo', {}, char));
+  }
+
+  // Consecutive letters are separate variables.
+  serializeLetters(text: string): string {
+    const letters = [...text].map((char) => this.tokenElement('mi', char));
+    if (letters.length === 1) {
+      return letters[0];
+    }
+    return parentElement('mrow', {}, letters);
+  }
+
+  // A token element in the current math alphabet.
+  tokenElement(name: string, text: string, attributes: Attributes = {}) {
+    if (this.variant) {
+      return element(name, { mathvariant: this.variant }, text);
+    }
+    return element(name, attributes, text);
+  }
+
+  serializeFraction(
+    node: LatexNode,
+    open: string | null = null,
+    close: string | null = null
+  ): string {
+    const [numerator, denominator] = node.children;
+    const attributes: Attributes = open || close ? { linethickness: '0' } : {};
+    let fraction = parentElement('mfrac', attributes, [
+      this.serializeRow(numerator ? [numerator] : []),
+      this.serializeRow(denominator ? [denominator] : []),
+    ]);
+    const displayStyle = displayStyleOf(node.token!.tokenType);
+    if (displayStyle !== null) {
+      fraction = parentElement(
+        'mstyle',
+        { displaystyle: String(displayStyle), scriptlevel: '0' },
+        [fraction]
+      );
+    }
+    if (!open && !close) {
+      return fraction;
+    }
+    return parentElement('mrow', {}, [
+      this.fence(open),
+      fraction,
+      this.fence(close),
+    ]);
+  }
+
+  // \genfrac{left}{right}{thickness}{style}{numerator}{denominator}
+  serializeGeneralizedFraction(node: LatexNode): string {
+    const [left, right, thickness, style, numerator, denominator] =
+      node.children;
+    const attributes: Attributes = {};
+    const thicknessText = nodeText(thickness);
+    if (thicknessText) {
+      attributes.linethickness = toMathMLLength(thicknessText);
+    }
+    let fraction = parentElement('mfrac', attributes, [
+      this.serializeRow(numerator ? [numerator] : []),
+      this.serializeRow(denominator ? [denominator] : []),
+    ]);
+    const styleText = nodeText(style);
+    if (styleText) {
+      const level = parseInt(styleText);
+      fraction = parentElement(
+        'mstyle',
+        {
+          displaystyle: String(level === 0),
+          scriptlevel: String(Math.max(0, level - 1)),
+        },
+        [fraction]
+      );
+    }
+    const open = delimiterChar(left);
+    const close = delimiterChar(right);
+    if (!open && !close) {
+      return fraction;
+    }
+    return parentElement('mrow', {}, [
+      this.fence(open),
+      fraction,
+      this.fence(close),
+    ]);
+  }
+
+  serializeLeftRight(node: LatexNode): string {
+    const [left, ...rest] = node.children;
+    const right = rest.pop();
+    const children: string[] = [this.fence(delimiterChar(left))];
+    const content: LatexNode[] = [];
+    const flush = () => {
+      if (content.length > 0) {
+        children.push(this.serializeRow(content.splice(0)));
+      }
+    };
+    for (const child of rest) {
+      if (child.token?.tokenType === TokenType.Middle) {
+        flush();
+        const char = delimiterChar(child.children[0]);
+        children.push(element('mo', { stretchy: 'true' }, char));
+      } else {
+        content.push(child);
+      }
+    }
+    flush();
+    children.push(this.fence(delimiterChar(right)));
+    return parentElement('mrow', {}, children);
+  }
+
+  fenced(nodes: LatexNode[], open: string, close: string): string {
+    return parentElement('mrow', {}, [
+      element('mo', { fence: 'true', stretchy: 'false' }, open),
+      ...this.serializeList(nodes),
+      element('mo', { fence: 'true', stretchy: 'false' }, close),
+    ]);
+  }
+
+  // a stretchy delimiter, empty for \left. or \right.
+  fence(char: string | null): string {
+    return element('mo', { fence: 'true', stretchy: 'true' }, char || '');
+  }
+
+  serializeEnvironment(node: LatexNode): string {
+    const envName = node.token!.token;
+    const rows = collectRows(node);
+    if (envName === 'cases') {
+      return parentElement('mrow', {}, [
+        this.fence('{'),
+        this.serializeTable(rows, ['left', 'left']),
+      ]);
+    }
+    if (envName === 'array') {
+      const columns = parseColumnSpec(node.rawArgs?.[0] || '');
+      const aligns = columns.aligns.map(
+        (align) => ({ l: 'left', c: 'center', r: 'right' }[align])
+      );
+      // rules between the columns
+      const lines = columns.rules.slice(1, -1);
+      const attributes: Attributes = {};
+      if (lines.some((count) => count > 0)) {
+        attributes.columnlines = lines
+          .map((count) => (count > 0 ? 'solid' : 'none'))
+          .join(' ');
+      }
+      return this.serializeTable(rows, aligns, attributes);
+    }
+    switch (envName) {
+      case 'align':
+      case 'align*':
+      case 'aligned':
+      case 'split':
+        return this.serializeTable(rows, ['right', 'left'], {
+          displaystyle: 'true',
+        });
+      case 'gather':
+      case 'gather*':
+      case 'gathered':
+      case 'multline':
+      case 'multline*':
+        return this.serializeTable(rows, ['center'], { displaystyle: 'true' });
+    }
+    const delimiters = MATRIX_DELIMITERS[envName];
+    if (delimiters) {
+      const attributes: Attributes =
+        envName === 'smallmatrix' ? { scriptlevel: '1' } : {};
+      const table = this.serializeTable(rows, ['center'], attributes);
+      const [open, close] = delimiters.map(delimiterChar);
+      if (!open && !close) {
+        return table;
+      }
+      return parentElement('mrow', {}, [
+        this.fence(open),
+        table,
+        this.fence(close),
+      ]);
+    }
+    return this.serializeTable(rows, ['left']);
+  }
+
+  // `aligns` repeats for columns beyond its length.
+  serializeTable(
+    { rows }: ArrayRows,
+    aligns: string[],
+    attributes: Attributes = {}
+  ): string {
+    const numOfColumns = Math.max(1, ...rows.map((row) => row.cells.length));
+    const columnAlign = [...Array(numOfColumns)].map(
+      (_, i) => aligns[i % aligns.length]
+    );
+    return parentElement(
+      'mtable',
+      { columnalign: columnAlign.join(' '), ...attributes },
+      rows.map((row) =>
+        this.tableRow(row.cells.map((cell) => this.serializeRow(cell)))
+      )
+    );
+  }
+
+  tableRow(cells: string[]): string {
+    return parentElement(
+      'mtr',
+      {},
+      cells.map((cell) => parentElement('mtd', {}, [cell]))
+    );
+  }
+
+  // Attach the scripts of `node` to `base`, as limits below and above when
+  // `limits` is set.
+  withScripts(node: LatexNode, base: string, limits: boolean = false): string {
+    const { subscript, superscript } = node;
+    if (!subscript && !superscript) {
+      return base;
+    }
+    const children = [base];
+    if (subscript) {
+      children.push(this.serializeRow(subscript.children));
+    }
+    if (superscript) {
+      children.push(this.serializeRow(superscript.children));
+    }
+    let name: string;
+    if (subscript && superscript) {
+      name = limits ? 'munderover' : 'msubsup';
+    } else if (subscript) {
+      name = limits ? 'munder' : 'msub';
+    } else {
+      name = limits ? 'mover' : 'msup';
+    }
+    return parentElement(name, {}, children);
+  }
+}
+
+// displaystyle of the fractions that set their own style
+function displayStyleOf(tokenType: string): boolean | null {
+  switch (tokenType) {
+    case TokenType.Dfrac:
+    case TokenType.Cfrac:
+    case TokenType.Dbinom:
+      return true;
+    case TokenType.Tfrac:
+    case TokenType.Tbinom:
+      return false;
+    default:
+      return null;
+  }
+}
+
+// MathML has no mu, which is 1/18 em.
+function toMathMLLength(dimension: string): string {
+  const match = dimension.trim().match(/^(-?\d*\.?\d+)\s*mu$/);
+  if (match) {
+    return `${round(parseFloat(match[1]) / 18)}em`;
+  }
+  return dimension.trim() || '0';
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+// Convert LaTeX to a <math> element of Presentation MathML.
+export function renderLatexToMathML(
+  latex: string,
+  options: Partial<MathMLOptions> = {}
+): string {
+  const opts: MathMLOptions = { ...DefaultMathMLOptions, ...options };
+  const node = parseLatex(latex, opts);
+  let content = new MathMLSerializer().serializeDocument(node);
+  if (opts.annotation) {
+    content = parentElement('semantics', {}, [
+      content,
+      element('annotation', { encoding: 'application/x-tex' }, latex),
+    ]);
+  }
+  return parentElement(
+    'math',
+    {
+      xmlns: 'http://www.w3.org/1998/Math/MathML',
+      display: opts.displayMode ? 'block' : 'inline',
+    },
+    [content]
+  );
+}
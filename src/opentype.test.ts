@@ -0,0 +1,25 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { readCharacterSet } from './opentype.ts';
+
+const fontDir = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '..',
+  'fonts'
+);
+
+describe('readCharacterSet', () => {
+  test('reads the code points of a font', () => {
+    const chars = readCharacterSet(
+      path.join(fontDir, 'KaTeX_Main-Regular.ttf')
+    );
+    expect(chars).not.toBeNull();
+    expect(chars!.has('a'.codePointAt(0)!)).toBe(true);
+    expect(chars!.has('∑'.codePointAt(0)!)).toBe(false);
+  });
+
+  test('returns null for files it cannot read', () => {
+    expect(readCharacterSet(path.join(fontDir, 'missing.ttf'))).toBeNull();
+    expect(readCharacterSet(fileURLToPath(import.meta.url))).toBeNull();
+  });
+});
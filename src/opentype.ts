@@ -0,0 +1,120 @@
+import fs from 'fs';
+
+// Unicode subtables of the cmap table by preference: full Unicode before the
+// Basic Multilingual Plane, and Windows before Unicode platform encodings.
+const CMAP_ENCODINGS = [
+  { platformId: 3, encodingId: 10 },
+  { platformId: 0, encodingId: 6 },
+  { platformId: 0, encodingId: 4 },
+  { platformId: 3, encodingId: 1 },
+  { platformId: 0, encodingId: 3 },
+];
+
+// Read the code points a TrueType or OpenType font file has glyphs for from
+// its cmap table. Returns null for files it can't read, like collections.
+export function readCharacterSet(path: string): Set<number> | null {
+  let data: Buffer;
+  try {
+    data = fs.readFileSync(path);
+  } catch {
+    return null;
+  }
+  try {
+    return parseCharacterSet(data);
+  } catch {
+    // a truncated or corrupt file reads out of range
+    return null;
+  }
+}
+
+function parseCharacterSet(data: Buffer): Set<number> | null {
+  const cmap = findTable(data, 'cmap');
+  if (cmap === null) {
+    return null;
+  }
+  const numOfSubtables = data.readUInt16BE(cmap + 2);
+  const subtables = new Map<string, number>();
+  for (let i = 0; i < numOfSubtables; i++) {
+    const record = cmap + 4 + i * 8;
+    const platformId = data.readUInt16BE(record);
+    const encodingId = data.readUInt16BE(record + 2);
+    const offset = cmap + data.readUInt32BE(record + 4);
+    subtables.set(`${platformId}/${encodingId}`, offset);
+  }
+  for (const { platformId, encodingId } of CMAP_ENCODINGS) {
+    const offset = subtables.get(`${platformId}/${encodingId}`);
+    if (offset === undefined) {
+      continue;
+    }
+    switch (data.readUInt16BE(offset)) {
+      case 4:
+        return parseFormat4(data, offset);
+      case 12:
+        return parseFormat12(data, offset);
+    }
+  }
+  return null;
+}
+
+// offset of the table with `tag` in the table directory
+function findTable(data: Buffer, tag: string): number | null {
+  const numOfTables = data.readUInt16BE(4);
+  for (let i = 0; i < numOfTables; i++) {
+    const record = 12 + i * 16;
+    if (data.toString('latin1', record, record + 4) === tag) {
+      return data.readUInt32BE(record + 8);
+    }
+  }
+  return null;
+}
+
+// segment mapping to delta values, for the Basic Multilingual Plane
+function parseFormat4(data: Buffer, offset: number): Set<number> {
+  const chars = new Set<number>();
+  const segCountX2 = data.readUInt16BE(offset + 6);
+  const endCodes = offset + 14;
+  const startCodes = endCodes + segCountX2 + 2;
+  const idDeltas = startCodes + segCountX2;
+  const idRangeOffsets = idDeltas + segCountX2;
+  for (let i = 0; i < segCountX2; i += 2) {
+    const end = data.readUInt16BE(endCodes + i);
+    const start = data.readUInt16BE(startCodes + i);
+    const idDelta = data.readUInt16BE(idDeltas + i);
+    const idRangeOffset = data.readUInt16BE(idRangeOffsets + i);
+    for (let code = start; code <= end && code !== 0xffff; code++) {
+      let glyphId: number;
+      if (idRangeOffset === 0) {
+        glyphId = (code + idDelta) & 0xffff;
+      } else {
+        const address = idRangeOffsets + i + idRangeOffset + (code - start) * 2;
+        glyphId = data.readUInt16BE(address);
+        if (glyphId !== 0) {
+          glyphId = (glyphId + idDelta) & 0xffff;
+        }
+      }
+      // glyph 0 is .notdef, the box drawn for missing characters
+      if (glyphId !== 0) {
+        chars.add(code);
+      }
+    }
+  }
+  return chars;
+}
+
+// segmented coverage, for all of Unicode
+function parseFormat12(data: Buffer, offset: number): Set<number> {
+  const chars = new Set<number>();
+  const numOfGroups = data.readUInt32BE(offset + 12);
+  for (let i = 0; i < numOfGroups; i++) {
+    const group = offset + 16 + i * 12;
+    const start = data.readUInt32BE(group);
+    const end = data.readUInt32BE(group + 4);
+    const startGlyphId = data.readUInt32BE(group + 8);
+    for (let code = start; code <= end; code++) {
+      if (startGlyphId + (code - start) !== 0) {
+        chars.add(code);
+      }
+    }
+  }
+  return chars;
+}
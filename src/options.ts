@@ -0,0 +1,86 @@
+import { MacroMap } from './macro.ts';
+
+export type RenderOptions = {
+  fontSize: number;
+  width: number;
+  height: number;
+  fillBackground: boolean;
+  backgroundColor: string;
+  // colour of the formula where \color and friends don't set one
+  foregroundColor: string;
+  // a font set registered with `registerFontSet`, like 'latin-modern',
+  // whose families replace the font family options below
+  fontSet: string | null;
+  mainFontFamily: string;
+  mathFontFamily: string;
+  amsFontFamily: string;
+  // lowercase Greek, for math italic fonts without it
+  greekFontFamily: string;
+  // fonts with larger variants of delimiters, from \big to \Bigg
+  sizeFontFamilies: string[];
+  // fonts of the math alphabet commands, keyed by the command like \mathbf
+  alphabetFontFamilies: { [command: string]: string };
+  // fonts tried in order for characters the chosen font has no glyph for
+  fallbackFontFamilies: string[];
+  // size the output to the formula instead of using `width` and `height`
+  autoSize: boolean;
+  // space kept between the formula and the edges of the output
+  padding: number;
+  horizontalAlign: 'left' | 'center';
+  // 'baseline' puts the baseline on the vertical centre of the output, so
+  // auto-sized images of different formulas line up when placed side by side
+  verticalAlign: 'top' | 'center' | 'baseline';
+  // throw parse errors instead of rendering what could be parsed, with
+  // undefined commands shown in `errorColor`
+  throwOnError: boolean;
+  errorColor: string;
+  // shared notation, like { '\\R': '\\mathbb{R}' }
+  macros: MacroMap;
+  maxExpand: number;
+};
+
+export const DefaultRenderOptions: RenderOptions = {
+  fontSize: 48,
+  width: 600,
+  height: 400,
+  fillBackground: true,
+  backgroundColor: 'white',
+  foregroundColor: 'black',
+  fontSet: null,
+  mainFontFamily: 'KaTeX_Main',
+  mathFontFamily: 'LatinModern_Italic',
+  amsFontFamily: 'KaTeX_AMS',
+  greekFontFamily: 'KaTeX_Math',
+  sizeFontFamilies: [
+    'KaTeX_Size1',
+    'KaTeX_Size2',
+    'KaTeX_Size3',
+    'KaTeX_Size4',
+  ],
+  alphabetFontFamilies: {
+    '\\mathrm': 'KaTeX_Main',
+    '\\mathit': 'KaTeX_MainItalic',
+    '\\mathbf': 'KaTeX_MainBold',
+    '\\boldsymbol': 'KaTeX_MathBoldItalic',
+    '\\mathbb': 'KaTeX_AMS',
+    '\\mathcal': 'KaTeX_Caligraphic',
+    '\\mathfrak': 'KaTeX_Fraktur',
+    '\\mathscr': 'KaTeX_Script',
+    '\\mathsf': 'KaTeX_SansSerif',
+    '\\mathtt': 'KaTeX_Typewriter',
+  },
+  fallbackFontFamilies: [
+    'KaTeX_Main',
+    'KaTeX_Math',
+    'KaTeX_AMS',
+    'KaTeX_Size1',
+  ],
+  autoSize: false,
+  padding: 8,
+  horizontalAlign: 'left',
+  verticalAlign: 'center',
+  throwOnError: true,
+  errorColor: '#cc0000',
+  macros: {},
+  maxExpand: 1000,
+};
@@ -0,0 +1,120 @@
+import { NodeType } from './ast.ts';
+import { ParseError } from './error.ts';
+import { parseLatex, parseLatexWithDiagnostics } from './parser.ts';
+
+const tolerant = { throwOnError: false };
+
+describe('parse errors', () => {
+  test('are located by line and column', () => {
+    expect(() => parseLatex('a +\n\\foo')).toThrow(ParseError);
+    try {
+      parseLatex('a +\n\\foo');
+    } catch (error) {
+      const { line, column, found } = error as ParseError;
+      expect({ line, column, found }).toEqual({
+        line: 2,
+        column: 1,
+        found: "'\\foo'",
+      });
+    }
+  });
+
+  test('say what was expected', () => {
+    expect(() => parseLatex('\\frac{a}{b')).toThrow(
+      "Unclosed group: expected '}' but found end of input at line 1, column 11"
+    );
+  });
+
+  test('locate an invalid argument at its text', () => {
+    const latex = 'x \\hspace{3 apples} y';
+    expect(() => parseLatex(latex)).toThrow(ParseError);
+    try {
+      parseLatex(latex);
+    } catch (error) {
+      const { found, start, end } = error as ParseError;
+      expect({ found, start, end }).toEqual({
+        found: "'3 apples'",
+        start: 10,
+        end: 18,
+      });
+    }
+  });
+
+  test('report an \\end without its \\begin', () => {
+    expect(() => parseLatex('x \\end{matrix}')).toThrow(
+      '\\end{matrix} without matching \\begin at line 1, column 3'
+    );
+  });
+});
+
+describe('arguments without braces', () => {
+  test('take one character of a run', () => {
+    const line = parseLatex('\\frac12x').children[0].children[0].children[0];
+    const [frac, rest] = line.children;
+    expect(frac.children.map((child) => child.token?.token)).toEqual([
+      '1',
+      '2',
+    ]);
+    expect(rest.token?.token).toBe('x');
+    expect(rest.token?.start).toBe(7);
+  });
+});
+
+describe('tolerant mode', () => {
+  test('records the errors and keeps parsing', () => {
+    const { node, diagnostics } = parseLatexWithDiagnostics(
+      'a} + \\foo + b',
+      tolerant
+    );
+    expect(diagnostics.map((error) => error.description)).toEqual([
+      'Mismatched brace',
+      'Undefined control sequence \\foo',
+    ]);
+    const line = node.children[0].children[0].children[0];
+    expect(line.children.map((child) => child.nodeType)).toContain(
+      NodeType.Error
+    );
+    expect(line.children[line.children.length - 1].token?.token).toBe('b');
+  });
+
+  test('closes what is open at the end of the input', () => {
+    const { diagnostics } = parseLatexWithDiagnostics('a + {x', tolerant);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].expected).toBe("'}'");
+  });
+
+  test('fills in missing arguments with empty groups', () => {
+    const { node, diagnostics } = parseLatexWithDiagnostics(
+      'x = \\frac{a}',
+      tolerant
+    );
+    expect(diagnostics.map((error) => error.expected)).toEqual([
+      "an argument of '\\frac'",
+    ]);
+    const line = node.children[0].children[0].children[0];
+    const frac = line.children[line.children.length - 1];
+    expect(frac.children).toHaveLength(2);
+    expect(frac.children[1].nodeType).toBe(NodeType.CBGroup);
+    expect(frac.children[1].children).toEqual([]);
+  });
+
+  test('closes an unclosed \\left with an empty delimiter', () => {
+    const { node, diagnostics } = parseLatexWithDiagnostics(
+      '\\left( x',
+      tolerant
+    );
+    expect(diagnostics.map((error) => error.expected)).toEqual(['\\right']);
+    const leftRight = node.children[0].children[0].children[0].children[0];
+    expect(leftRight.nodeType).toBe(NodeType.LeftRight);
+    expect(leftRight.children.map((child) => child.token?.token)).toEqual([
+      '(',
+      'x',
+      '.',
+    ]);
+  });
+
+  test('has no diagnostics for valid input', () => {
+    const { diagnostics } = parseLatexWithDiagnostics('x^2', tolerant);
+    expect(diagnostics).toEqual([]);
+  });
+});
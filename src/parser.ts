@@ -8,39 +8,129 @@ import {
   createEnvironmentNode,
   Token,
 } from './ast.ts';
+import { ParseError } from './error.ts';
 import { Lexer } from './lexer.ts';
+import { MacroExpander, MacroMap } from './macro.ts';
+import { parseDimension } from './spacing.ts';
+
+export type ParseOptions = {
+  // throw the first error; otherwise recover from it, record it in the
+  // diagnostics and keep parsing
+  throwOnError: boolean;
+  // macros defined before the input, like { '\\R': '\\mathbb{R}' }
+  macros: MacroMap;
+  // maximum number of macro expansions, to stop recursive macros
+  maxExpand: number;
+};
+
+export const DefaultParseOptions: ParseOptions = {
+  throwOnError: true,
+  macros: {},
+  maxExpand: 1000,
+};
+
+export type ParseResult = {
+  node: LatexNode;
+  diagnostics: ParseError[];
+};
+
+const CLOSING_TOKENS: { [key: string]: string } = {
+  [TokenType.LParen]: "')'",
+  [TokenType.LBracket]: "']'",
+  [TokenType.LBrace]: "'}'",
+  [TokenType.Left]: '\\right',
+};
 
 type ParseState = {
   node: LatexNode;
   // このノードがパラメータとして持つべき子ノードの数
   numOfParams: number | null;
+  // number of bracketed optional arguments allowed before the parameters
+  numOfOptionalParams: number;
 };
 
 class ParseContext {
   private environmentStacks: LatexNode[] = [];
+  // index in stateStacks of the line state of each environment
+  private environmentDepths: number[] = [];
   private stateStacks: ParseState[] = [];
   private paragraphIndex = 0;
   private lineIndex = 0;
+  // node waiting for the delimiter that follows \left, \right, \middle or \big
+  private delimiterOwner: { node: LatexNode; closesGroup: boolean } | null =
+    null;
+  public diagnostics: ParseError[] = [];
 
-  constructor(private rootNode: LatexNode) {
+  constructor(
+    private rootNode: LatexNode,
+    private input: string,
+    private options: ParseOptions
+  ) {
     const lineNode = rootNode.children[0].children[0].children[0];
     this.environmentStacks.push(rootNode.children[0]);
-    this.stateStacks.push({ node: lineNode, numOfParams: null });
+    this.environmentDepths.push(0);
+    this.pushState(lineNode);
   }
 
-  public createNewLine() {
+  public createNewLine(token: Token) {
+    this.closeStates(token);
     const node = createNode(NodeType.Line);
     this.paragraphNode.children.push(node);
     this.lineIndex++;
-    this.stateStacks = [{ node, numOfParams: null }];
+    this.pushState(node);
   }
 
-  public createNewParagraph() {
+  public createNewParagraph(token: Token) {
+    this.closeStates(token);
     const node = createNode(NodeType.Paragraph, [createNode(NodeType.Line)]);
     this.environmentNode.children.push(node);
     this.paragraphIndex++;
     this.lineIndex = 0;
-    this.stateStacks = [{ node: node.children[0], numOfParams: null }];
+    this.pushState(node.children[0]);
+  }
+
+  // drop the states of the current environment at `token`, like groups
+  // left open on the previous line
+  private closeStates(token: Token) {
+    while (this.stateStacks.length > this.environmentDepth) {
+      this.completeArguments(token);
+      this.completeLeftRight(token);
+      this.popState();
+    }
+  }
+
+  // Close a \left on top without its \right with the empty delimiter `.`,
+  // so the last child of a LeftRight node is always its right delimiter.
+  private completeLeftRight(token: Token) {
+    const { node } = this.top;
+    if (node.nodeType !== NodeType.LeftRight) {
+      return;
+    }
+    const period = { ...token, token: '.', tokenType: TokenType.Period };
+    // a \left at the end of the input is missing both
+    if (node.children.length === 0) {
+      node.children.push(createPlainNode(period));
+    }
+    node.children.push(createPlainNode(period));
+  }
+
+  // Report a command on top that is missing arguments at `token` and fill
+  // them in with empty groups, so a tolerant parse only has complete
+  // commands.
+  private completeArguments(token: Token) {
+    const { node, numOfParams } = this.top;
+    if (numOfParams === null || node.children.length >= numOfParams) {
+      return;
+    }
+    const command = node.token?.token;
+    this.report('Missing argument', token, `an argument of '${command}'`);
+    while (node.children.length < numOfParams) {
+      node.children.push(createNode(NodeType.CBGroup));
+    }
+  }
+
+  private get environmentDepth() {
+    return this.environmentDepths[this.environmentDepths.length - 1];
   }
 
   public pushEnvironment(node: LatexNode) {
@@ -50,23 +140,33 @@ class ParseContext {
     this.environmentStacks.push(node);
     this.top.node.children.push(node);
     const lineNode = this.environmentNode.children[0].children[0];
+    this.environmentDepths.push(this.stateStacks.length);
     this.pushState(lineNode);
   }
 
-  public popEnvironment() {
-    const env = this.environmentStacks.pop();
-    this.popState();
-    return env;
+  public popEnvironment(token: Token) {
+    this.closeStates(token);
+    this.environmentDepths.pop();
+    return this.environmentStacks.pop();
   }
 
-  public pushState(node: LatexNode, numOfParams: number | null = null) {
-    this.stateStacks.push({ node, numOfParams: numOfParams });
+  public pushState(
+    node: LatexNode,
+    numOfParams: number | null = null,
+    numOfOptionalParams: number = 0
+  ) {
+    this.stateStacks.push({ node, numOfParams, numOfOptionalParams });
   }
 
   public popState() {
     this.stateStacks.pop();
   }
 
+  // whether no environment is open, only the document itself
+  public get isRootEnvironment() {
+    return this.environmentStacks.length === 1;
+  }
+
   public get environmentNode() {
     return this.environmentStacks[this.environmentStacks.length - 1];
   }
@@ -89,25 +189,156 @@ class ParseContext {
     return this.top.numOfParams;
   }
 
+  // whether the next token is one of the delimiter arguments of \genfrac,
+  // either bare (`\genfrac()`) or braced (`\genfrac{(}{)}`)
+  public get isDelimiterArgument() {
+    const isGenfracDelimiter = (state: ParseState | undefined, n: number) =>
+      state?.node.token?.tokenType === TokenType.Genfrac &&
+      state.node.children.length < n;
+    const parent = this.stateStacks[this.stateStacks.length - 2];
+    return (
+      isGenfracDelimiter(this.top, 2) ||
+      (this.top.node.nodeType === NodeType.CBGroup &&
+        isGenfracDelimiter(parent, 3))
+    );
+  }
+
+  // whether a `[` opens an optional argument of the current command, which
+  // is only possible before its first parameter
+  public get isOptionalArgument() {
+    const { node, numOfOptionalParams } = this.top;
+    const numOfOptionalArgs = node.optionalArgs?.length || 0;
+    return (
+      node.children.length === 0 && numOfOptionalArgs < numOfOptionalParams
+    );
+  }
+
+  public addOptionalArgument(node: LatexNode) {
+    const owner = this.top.node;
+    owner.optionalArgs = [...(owner.optionalArgs || []), node];
+    this.pushState(node);
+  }
+
   public addChild(node: LatexNode) {
     this.top.node.children.push(node);
   }
+
+  public expectDelimiter(node: LatexNode, closesGroup: boolean = false) {
+    this.delimiterOwner = { node, closesGroup };
+  }
+
+  public get isExpectingDelimiter() {
+    return this.delimiterOwner !== null;
+  }
+
+  public addDelimiter(node: LatexNode) {
+    const owner = this.delimiterOwner!;
+    owner.node.children.push(node);
+    this.delimiterOwner = null;
+    if (owner.closesGroup) {
+      this.popState();
+    }
+  }
+
+  // Throw an error at `token`, or only record it in tolerant mode, where the
+  // caller recovers.
+  public report(
+    description: string,
+    token: Token,
+    expected: string | null = null
+  ) {
+    const error = new ParseError(description, token, this.input, expected);
+    if (this.options.throwOnError) {
+      throw error;
+    }
+    this.diagnostics.push(error);
+  }
+
+  // Report what is still open at the end of the input and close it.
+  public finish(eofToken: Token) {
+    if (this.isExpectingDelimiter) {
+      this.report('Missing delimiter', eofToken, 'a delimiter');
+      this.delimiterOwner = null;
+    }
+    while (this.stateStacks.length > 1) {
+      const isEnvironmentLine =
+        !this.isRootEnvironment &&
+        this.stateStacks.length - 1 === this.environmentDepth;
+      if (isEnvironmentLine) {
+        const name = this.environmentNode.token!.token;
+        this.report('Unclosed environment', eofToken, `\\end{${name}}`);
+        this.popEnvironment(eofToken);
+        continue;
+      }
+      const { node, numOfParams } = this.top;
+      if (numOfParams !== null) {
+        this.completeArguments(eofToken);
+      } else {
+        const closing = CLOSING_TOKENS[node.token?.tokenType || ''] || "'}'";
+        this.report('Unclosed group', eofToken, closing);
+        this.completeLeftRight(eofToken);
+      }
+      this.popState();
+    }
+  }
+
+  // pop the state of a command once it has received all of its parameters
+  public popCompletedState() {
+    if (this.top) {
+      const numOfParams = this.top.node.children.length;
+      if (this.numOfParams === numOfParams) {
+        this.popState();
+      }
+    }
+  }
+}
+
+export function parseLatex(
+  latex: string,
+  options: Partial<ParseOptions> = {}
+): LatexNode {
+  return parseLatexWithDiagnostics(latex, options).node;
 }
 
-export function parseLatex(latex: string): LatexNode {
-  const lexer = new Lexer(latex);
+// Parse LaTeX and also return the errors recovered from. With the default
+// `throwOnError` the first error is thrown instead, so the diagnostics are
+// always empty.
+export function parseLatexWithDiagnostics(
+  latex: string,
+  options: Partial<ParseOptions> = {}
+): ParseResult {
+  const opts: ParseOptions = { ...DefaultParseOptions, ...options };
   const rootNode = createDocumentNode();
-  const context = new ParseContext(rootNode);
-  while (lexer.hasMoreTokens()) {
-    lexer.nextToken();
-    const token = lexer.currentToken();
-    const lastNode =
+  const context = new ParseContext(rootNode, latex, opts);
+  const expander = new MacroExpander(
+    new Lexer(latex),
+    opts.macros,
+    opts.maxExpand,
+    context.report.bind(context)
+  );
+  while (expander.hasMoreTokens()) {
+    expander.nextToken();
+    let token = expander.currentToken();
+    if (token.tokenType === TokenType.EOF) {
+      break;
+    }
+    if (context.numOfParams !== null) {
+      token = splitArgument(expander, token);
+    }
+    if (context.isExpectingDelimiter) {
+      context.addDelimiter(createPlainNode(token));
+      context.popCompletedState();
+      continue;
+    }
+    let lastNode =
       context.top.node.children[context.top.node.children.length - 1];
     switch (token.tokenType) {
       case TokenType.Subscript: {
         const node = createPlainNode(token);
         if (!lastNode) {
-          throw new Error('Subscript without previous node');
+          context.report('Subscript without previous node', token);
+          lastNode = createNode(NodeType.CBGroup);
+          context.addChild(lastNode);
         }
         lastNode.subscript = node;
         context.pushState(node, 1);
@@ -116,72 +347,103 @@ export function parseLatex(latex: string): LatexNode {
       case TokenType.Superscript: {
         const node = createPlainNode(token);
         if (!lastNode) {
-          throw new Error('Superscript without previous node');
+          context.report('Superscript without previous node', token);
+          lastNode = createNode(NodeType.CBGroup);
+          context.addChild(lastNode);
         }
         lastNode.superscript = node;
         context.pushState(node, 1);
         break;
       }
-      case TokenType.Begin: {
-        lexer.nextToken();
-        if (lexer.currentToken().tokenType !== TokenType.LBrace) {
-          throw new Error('\\begin command must have environment.');
-        }
-        lexer.nextToken();
-        const envToken = lexer.currentToken();
-        if (envToken.tokenType !== TokenType.Alphabet) {
-          throw new Error('\\begin command must have environment.');
+      case TokenType.Limits:
+      case TokenType.NoLimits: {
+        if (!lastNode) {
+          context.report(`${token.token} without previous node`, token);
+          break;
         }
-        lexer.nextToken();
-        if (lexer.currentToken().tokenType !== TokenType.RBrace) {
-          throw new Error('\\begin command must have environment.');
+        lastNode.limits = token.tokenType === TokenType.Limits;
+        break;
+      }
+      case TokenType.Begin: {
+        const envToken = readEnvironmentName(expander, context, token);
+        if (!envToken) {
+          break;
         }
         const node = createEnvironmentNode(envToken);
+        if (envToken.token === 'array') {
+          // column specification such as {lcr|c}
+          node.rawArgs = [expander.readGroup()?.token ?? ''];
+        }
         context.pushEnvironment(node);
         break;
       }
       case TokenType.End: {
-        lexer.nextToken();
-        if (lexer.currentToken().tokenType !== TokenType.LBrace) {
-          throw new Error('\\begin command must have environment.');
+        const envToken = readEnvironmentName(expander, context, token);
+        if (!envToken) {
+          break;
         }
-        lexer.nextToken();
-        const envToken = lexer.currentToken();
-        if (envToken.tokenType !== TokenType.Alphabet) {
-          throw new Error('\\begin command must have environment.');
+        if (context.isRootEnvironment) {
+          context.report(
+            `\\end{${envToken.token}} without matching \\begin`,
+            token
+          );
+          break;
         }
-        lexer.nextToken();
-        if (lexer.currentToken().tokenType !== TokenType.RBrace) {
-          throw new Error('\\begin command must have environment.');
+        const name = context.environmentNode.token!.token;
+        if (envToken.token !== name) {
+          // the \end is ignored when recovering
+          context.report('Mismatched environment', envToken, `'${name}'`);
+          break;
         }
-        if (envToken.token !== context.environmentNode.token!.token) {
-          throw new Error('Mismatched environment');
-        }
-        context.popEnvironment();
+        context.popEnvironment(envToken);
         break;
       }
       case TokenType.LParen: {
+        if (context.isDelimiterArgument) {
+          context.addChild(createPlainNode(token));
+          break;
+        }
         const node = createNode(NodeType.PGroup, [], token);
         context.addChild(node);
         context.pushState(node);
         break;
       }
       case TokenType.RParen: {
+        if (context.isDelimiterArgument) {
+          context.addChild(createPlainNode(token));
+          break;
+        }
         if (context.top.node.token?.tokenType !== TokenType.LParen) {
-          throw new Error('Mismatched Parenthesis');
+          context.report('Mismatched parenthesis', token);
+          context.addChild(createPlainNode(token));
+          break;
         }
         context.popState();
         break;
       }
       case TokenType.LBracket: {
+        if (context.isDelimiterArgument) {
+          context.addChild(createPlainNode(token));
+          break;
+        }
         const node = createNode(NodeType.BGroup, [], token);
+        if (context.isOptionalArgument) {
+          context.addOptionalArgument(node);
+          break;
+        }
         context.addChild(node);
         context.pushState(node);
         break;
       }
       case TokenType.RBracket: {
+        if (context.isDelimiterArgument) {
+          context.addChild(createPlainNode(token));
+          break;
+        }
         if (context.top.node.token?.tokenType !== TokenType.LBracket) {
-          throw new Error('Mismatched Bracket');
+          context.report('Mismatched bracket', token);
+          context.addChild(createPlainNode(token));
+          break;
         }
         context.popState();
         break;
@@ -194,30 +456,180 @@ export function parseLatex(latex: string): LatexNode {
       }
       case TokenType.RBrace: {
         if (context.top.node.token?.tokenType !== TokenType.LBrace) {
-          throw new Error('Mismatched Brace');
+          context.report('Mismatched brace', token);
+          break;
         }
         context.popState();
         break;
       }
-      case TokenType.SquareRoot: {
+      case TokenType.Left: {
+        const node = createNode(NodeType.LeftRight, [], token);
+        context.addChild(node);
+        context.pushState(node);
+        context.expectDelimiter(node);
+        break;
+      }
+      case TokenType.Right: {
+        if (context.top.node.nodeType !== NodeType.LeftRight) {
+          context.report('\\right without \\left', token);
+          // the delimiter goes to a node that is never added to the tree
+          context.expectDelimiter(createPlainNode(token));
+          break;
+        }
+        context.expectDelimiter(context.top.node, true);
+        break;
+      }
+      case TokenType.Middle: {
+        if (context.top.node.nodeType !== NodeType.LeftRight) {
+          context.report('\\middle without \\left', token);
+          context.expectDelimiter(createPlainNode(token));
+          break;
+        }
+        const node = createPlainNode(token);
+        context.addChild(node);
+        context.expectDelimiter(node);
+        break;
+      }
+      case TokenType.Big:
+      case TokenType.BigL:
+      case TokenType.BigR:
+      case TokenType.BigM:
+      case TokenType.UpperBig:
+      case TokenType.UpperBigL:
+      case TokenType.UpperBigR:
+      case TokenType.UpperBigM:
+      case TokenType.Bigg:
+      case TokenType.BiggL:
+      case TokenType.BiggR:
+      case TokenType.BiggM:
+      case TokenType.UpperBigg:
+      case TokenType.UpperBiggL:
+      case TokenType.UpperBiggR:
+      case TokenType.UpperBiggM: {
+        const node = createPlainNode(token);
+        context.addChild(node);
+        context.expectDelimiter(node);
+        break;
+      }
+      case TokenType.Text: {
+        // the text is kept as is, spaces included
+        const text = expander.readGroup();
+        if (text === null) {
+          context.report(`Missing argument of ${token.token}`, token);
+        }
+        const node = createPlainNode(token);
+        node.rawArgs = [text?.token ?? ''];
+        context.addChild(node);
+        break;
+      }
+      case TokenType.Color:
+      case TokenType.TextColor: {
+        // \color switches the colour of the rest of the group, \textcolor
+        // only colours its argument
+        const node = createPlainNode(token);
+        node.rawArgs = readRawArguments(expander, context, token, 1);
+        context.addChild(node);
+        if (token.tokenType === TokenType.TextColor) {
+          context.pushState(node, 1);
+        }
+        break;
+      }
+      case TokenType.ColorBox:
+      case TokenType.FColorBox: {
+        // the colours, the frame's first, and the text
+        const count = token.tokenType === TokenType.FColorBox ? 3 : 2;
+        const node = createPlainNode(token);
+        node.rawArgs = readRawArguments(expander, context, token, count);
+        context.addChild(node);
+        break;
+      }
+      case TokenType.Hspace: {
+        const node = createPlainNode(token);
+        const dimension = expander.readGroup();
+        if (dimension === null) {
+          context.report(`Missing argument of ${token.token}`, token);
+        } else if (
+          dimension.token &&
+          parseDimension(dimension.token, 1) === null
+        ) {
+          context.report(
+            `Invalid dimension of ${token.token}`,
+            dimension,
+            'a length'
+          );
+        }
+        node.rawArgs = [dimension?.token ?? ''];
+        context.addChild(node);
+        break;
+      }
+      case TokenType.Hat:
+      case TokenType.Bar:
+      case TokenType.Vec:
+      case TokenType.Dot:
+      case TokenType.Ddot:
+      case TokenType.Tilde:
+      case TokenType.Check:
+      case TokenType.Breve:
+      case TokenType.Acute:
+      case TokenType.Grave:
+      case TokenType.WideHat:
+      case TokenType.WideTilde:
+      case TokenType.Overline:
+      case TokenType.Underline:
+      case TokenType.OverRightArrow:
+      case TokenType.OverLeftArrow:
+      case TokenType.MathRm:
+      case TokenType.MathIt:
+      case TokenType.MathBf:
+      case TokenType.BoldSymbol:
+      case TokenType.MathBb:
+      case TokenType.MathCal:
+      case TokenType.MathFrak:
+      case TokenType.MathScr:
+      case TokenType.MathSf:
+      case TokenType.MathTt: {
         const node = createPlainNode(token);
         context.addChild(node);
         context.pushState(node, 1);
         break;
       }
-      case TokenType.Dfrac: {
+      case TokenType.SquareRoot: {
+        const node = createPlainNode(token);
+        context.addChild(node);
+        context.pushState(node, 1, 1);
+        break;
+      }
+      case TokenType.Frac:
+      case TokenType.Dfrac:
+      case TokenType.Tfrac:
+      case TokenType.Cfrac:
+      case TokenType.Binom:
+      case TokenType.Dbinom:
+      case TokenType.Tbinom: {
         const node = createPlainNode(token);
         context.addChild(node);
         context.pushState(node, 2);
         break;
       }
+      case TokenType.Genfrac: {
+        // \genfrac{left}{right}{thickness}{style}{numerator}{denominator}
+        const node = createPlainNode(token);
+        context.addChild(node);
+        context.pushState(node, 6);
+        break;
+      }
       case TokenType.DoubleBackslash:
       case TokenType.Newline: {
-        context.createNewLine();
+        context.createNewLine(token);
         break;
       }
       case TokenType.Paragraph: {
-        context.createNewParagraph();
+        context.createNewParagraph(token);
+        break;
+      }
+      case TokenType.Unknown: {
+        context.report(`Undefined control sequence ${token.token}`, token);
+        context.addChild(createNode(NodeType.Error, [], token));
         break;
       }
       default: {
@@ -226,14 +638,90 @@ export function parseLatex(latex: string): LatexNode {
         break;
       }
     }
-    if (context.top) {
-      const numOfParams = context.top.node.children.length;
-      if (context.numOfParams === numOfParams) {
-        context.popState();
-      }
+    context.popCompletedState();
+  }
+  context.finish({
+    token: '',
+    tokenType: TokenType.EOF,
+    start: latex.length,
+    end: latex.length,
+  });
+  return { node: rootNode, diagnostics: context.diagnostics };
+}
+
+// An argument without braces is a single character as in TeX, so \frac12
+// is \frac{1}{2}. The rest of a run of digits or letters is read again as
+// the next token.
+function splitArgument(expander: MacroExpander, token: Token): Token {
+  const isRun =
+    token.tokenType === TokenType.Number ||
+    token.tokenType === TokenType.Alphabet;
+  if (!isRun || token.token.length < 2) {
+    return token;
+  }
+  // tokens from a macro expansion are located at the whole macro
+  const isFromSource =
+    token.start !== undefined &&
+    token.end !== undefined &&
+    token.end - token.start === token.token.length;
+  const split = isFromSource ? token.start! + 1 : token.start;
+  expander.unreadToken({ ...token, token: token.token.slice(1), start: split });
+  return {
+    ...token,
+    token: token.token[0],
+    end: isFromSource ? split : token.end,
+  };
+}
+
+// Read the `{name}` following \begin or \end. Starred names like `align*`
+// are returned as a single token. Returns null after reporting malformed
+// input.
+function readEnvironmentName(
+  expander: MacroExpander,
+  context: ParseContext,
+  command: Token
+): Token | null {
+  const description = `Missing environment name of ${command.token}`;
+  expander.nextToken();
+  if (expander.currentToken().tokenType !== TokenType.LBrace) {
+    context.report(description, expander.currentToken(), "'{'");
+    return null;
+  }
+  expander.nextToken();
+  const envToken = expander.currentToken();
+  if (envToken.tokenType !== TokenType.Alphabet) {
+    context.report(description, envToken, 'an environment name');
+    return null;
+  }
+  expander.nextToken();
+  if (expander.currentToken().token === '*') {
+    envToken.token += '*';
+    envToken.end = expander.currentToken().end;
+    expander.nextToken();
+  }
+  if (expander.currentToken().tokenType !== TokenType.RBrace) {
+    context.report(description, expander.currentToken(), "'}'");
+    return null;
+  }
+  return envToken;
+}
+
+// Read `count` brace groups as raw text, like colours.
+function readRawArguments(
+  expander: MacroExpander,
+  context: ParseContext,
+  command: Token,
+  count: number
+): string[] {
+  const args: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const arg = expander.readGroup();
+    if (arg === null) {
+      context.report(`Missing argument of ${command.token}`, command);
     }
+    args.push(arg?.token ?? '');
   }
-  return rootNode;
+  return args;
 }
 
 export function printNode(node: LatexNode, depth = 0) {
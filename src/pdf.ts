@@ -0,0 +1,79 @@
+import { LatexLayout, placeBox } from './layout.ts';
+import { DefaultRenderOptions, RenderOptions } from './options.ts';
+import { parseLatex } from './parser.ts';
+import { LatexRenderer } from './render.ts';
+
+export type PdfRenderOptions = RenderOptions & {
+  // 'page' puts every formula on its own page, 'flow' stacks the formulas
+  // down the page and only breaks to a new page when the current one is full
+  pageLayout: 'page' | 'flow';
+  // space around the formulas in flow layout, where pages always have the
+  // fixed `width` x `height` size
+  pageMargin: number;
+  // space between two formulas in flow layout, as a ratio of the font size
+  formulaSpacingRatio: number;
+};
+
+export const DefaultPdfRenderOptions: PdfRenderOptions = {
+  ...DefaultRenderOptions,
+  pageLayout: 'page',
+  pageMargin: 36,
+  formulaSpacingRatio: 1,
+};
+
+// Render LaTeX to a single page vector PDF. The page is `width` x `height`
+// points (or fitted to the formula with `autoSize`) and the fonts registered
+// by `initRendering` are embedded.
+export function renderLatexToPdf(
+  latex: string,
+  options: Partial<RenderOptions> = {}
+): Buffer {
+  return renderLatexListToPdf([latex], options);
+}
+
+// Render a list of formulas into one multi-page PDF.
+export function renderLatexListToPdf(
+  latexList: string[],
+  options: Partial<PdfRenderOptions> = {}
+): Buffer {
+  const opts: PdfRenderOptions = { ...DefaultPdfRenderOptions, ...options };
+  const layout = (latex: string) =>
+    new LatexLayout(opts).layout(parseLatex(latex, opts).children);
+  if (opts.pageLayout === 'page') {
+    // with `autoSize` every page gets the size of its own formula
+    let renderer: LatexRenderer | null = null;
+    for (const latex of latexList) {
+      const box = layout(latex);
+      const placement = placeBox(box, opts);
+      if (!renderer) {
+        renderer = LatexRenderer.create(
+          { ...opts, width: placement.width, height: placement.height },
+          'pdf'
+        );
+      } else {
+        renderer.addPage(placement.width, placement.height);
+      }
+      renderer.drawBox(box, placement.x, placement.y);
+    }
+    return (renderer || LatexRenderer.create(opts, 'pdf')).canvas.toBuffer();
+  }
+
+  const renderer = LatexRenderer.create(opts, 'pdf');
+
+  const spacing = opts.fontSize * opts.formulaSpacingRatio;
+  const bottom = opts.height - opts.pageMargin;
+  let y = opts.pageMargin;
+  let isPageEmpty = true;
+  for (const latex of latexList) {
+    const box = layout(latex);
+    const height = box.height + box.depth;
+    if (!isPageEmpty && y + height > bottom) {
+      renderer.addPage();
+      y = opts.pageMargin;
+    }
+    renderer.drawBox(box, opts.pageMargin, y + box.height);
+    y += height + spacing;
+    isPageEmpty = false;
+  }
+  return renderer.canvas.toBuffer();
+}
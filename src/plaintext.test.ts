@@ -0,0 +1,37 @@
+import { renderLatexToText } from './plaintext.ts';
+
+describe('renderLatexToText', () => {
+  test('writes scripts with Unicode superscripts and subscripts', () => {
+    expect(renderLatexToText('x^2 + y_1')).toBe('x² + y₁');
+    expect(renderLatexToText('x^{n+1}')).toBe('xⁿ⁺¹');
+  });
+
+  test('stacks fractions around a bar', () => {
+    expect(renderLatexToText('\\frac{a+1}{b}')).toBe(
+      [' a + 1', '───────', '   b'].join('\n')
+    );
+  });
+
+  test('leaves missing fraction parts empty', () => {
+    const tolerant = { throwOnError: false };
+    expect(renderLatexToText('\\frac{a}', tolerant)).toBe(' a\n───\n');
+    expect(renderLatexToText('\\frac', tolerant)).toBe('\n──\n');
+  });
+
+  test('draws radicals, accents and double-struck letters', () => {
+    expect(renderLatexToText('\\sqrt{x}')).toBe(' ─\n√x');
+    expect(renderLatexToText('\\hat{x}')).toBe('x̂');
+    expect(renderLatexToText('\\mathbb{R}')).toBe('ℝ');
+  });
+
+  test('builds tall delimiters from pieces', () => {
+    expect(
+      renderLatexToText('\\begin{pmatrix}a & b \\\\ c & d\\end{pmatrix}')
+    ).toBe('⎛a  b⎞\n⎝c  d⎠');
+  });
+
+  test('leaves out empty delimiters', () => {
+    expect(renderLatexToText('\\begin{matrix}a&b\\end{matrix}')).toBe('a  b');
+    expect(renderLatexToText('\\genfrac{}{}{0pt}{}{n}{k}')).toBe(' n\n k');
+  });
+});
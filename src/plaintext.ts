@@ -0,0 +1,764 @@
+import { MATRIX_DELIMITERS, collectRows, parseColumnSpec } from './array.ts';
+import { LatexNode, NodeType, TokenType, createNode, nodeText } from './ast.ts';
+import { DefaultParseOptions, ParseOptions, parseLatex } from './parser.ts';
+import {
+  atomSpacing,
+  classifyAtoms,
+  parseDimension,
+  spaceWidths,
+} from './spacing.ts';
+import {
+  accentMap,
+  bigDelimiterSizes,
+  bigOperatorMap,
+  delimiterChar,
+  delimiterMap,
+  integralOperators,
+  lowercaseGreekMap,
+  symbolMap,
+  uppercaseGreekMap,
+} from './symbols.ts';
+
+// Lines of monospace text with a baseline, like the boxes of the layout.
+type TextBlock = {
+  // rows of the same width
+  rows: string[];
+  // index of the row the baseline runs through
+  baseline: number;
+  width: number;
+};
+
+type Align = 'left' | 'center' | 'right';
+
+type TableOptions = {
+  aligns: Align[];
+  // number of vertical rules before each column and after the last one
+  rules?: number[];
+  // columns in right and left aligned pairs, like amsmath's align
+  alignPairs?: boolean;
+};
+
+const SUPERSCRIPTS: { [key: string]: string } = {
+  '0': '⁰',
+  '1': '¹',
+  '2': '²',
+  '3': '³',
+  '4': '⁴',
+  '5': '⁵',
+  '6': '⁶',
+  '7': '⁷',
+  '8': '⁸',
+  '9': '⁹',
+  '+': '⁺',
+  '-': '⁻',
+  '−': '⁻',
+  '=': '⁼',
+  '(': '⁽',
+  ')': '⁾',
+  a: 'ᵃ',
+  b: 'ᵇ',
+  c: 'ᶜ',
+  d: 'ᵈ',
+  e: 'ᵉ',
+  f: 'ᶠ',
+  g: 'ᵍ',
+  h: 'ʰ',
+  i: 'ⁱ',
+  j: 'ʲ',
+  k: 'ᵏ',
+  l: 'ˡ',
+  m: 'ᵐ',
+  n: 'ⁿ',
+  o: 'ᵒ',
+  p: 'ᵖ',
+  r: 'ʳ',
+  s: 'ˢ',
+  t: 'ᵗ',
+  u: 'ᵘ',
+  v: 'ᵛ',
+  w: 'ʷ',
+  x: 'ˣ',
+  y: 'ʸ',
+  z: 'ᶻ',
+  T: 'ᵀ',
+  '′': '′',
+};
+
+const SUBSCRIPTS: { [key: string]: string } = {
+  '0': '₀',
+  '1': '₁',
+  '2': '₂',
+  '3': '₃',
+  '4': '₄',
+  '5': '₅',
+  '6': '₆',
+  '7': '₇',
+  '8': '₈',
+  '9': '₉',
+  '+': '₊',
+  '-': '₋',
+  '−': '₋',
+  '=': '₌',
+  '(': '₍',
+  ')': '₎',
+  a: 'ₐ',
+  e: 'ₑ',
+  h: 'ₕ',
+  i: 'ᵢ',
+  j: 'ⱼ',
+  k: 'ₖ',
+  l: 'ₗ',
+  m: 'ₘ',
+  n: 'ₙ',
+  o: 'ₒ',
+  p: 'ₚ',
+  r: 'ᵣ',
+  s: 'ₛ',
+  t: 'ₜ',
+  u: 'ᵤ',
+  v: 'ᵥ',
+  x: 'ₓ',
+  β: 'ᵦ',
+  γ: 'ᵧ',
+  ρ: 'ᵨ',
+  φ: 'ᵩ',
+  χ: 'ᵪ',
+};
+
+// combining characters of the accents over a single character
+const COMBINING_ACCENTS: { [key: string]: string } = {
+  [TokenType.Hat]: '̂',
+  [TokenType.Bar]: '̄',
+  [TokenType.Vec]: '⃗',
+  [TokenType.Dot]: '̇',
+  [TokenType.Ddot]: '̈',
+  [TokenType.Tilde]: '̃',
+  [TokenType.Check]: '̌',
+  [TokenType.Breve]: '̆',
+  [TokenType.Acute]: '́',
+  [TokenType.Grave]: '̀',
+};
+
+// double-struck capitals outside of the Mathematical Alphanumeric Symbols
+const DOUBLE_STRUCK: { [key: string]: string } = {
+  C: 'ℂ',
+  H: 'ℍ',
+  N: 'ℕ',
+  P: 'ℙ',
+  Q: 'ℚ',
+  R: 'ℝ',
+  Z: 'ℤ',
+};
+
+// pieces of delimiters spanning several rows: top, middle, bottom, and the
+// extension between them
+const TALL_DELIMITERS: { [key: string]: [string, string, string, string] } = {
+  '(': ['⎛', '⎜', '⎝', '⎜'],
+  ')': ['⎞', '⎟', '⎠', '⎟'],
+  '[': ['⎡', '⎢', '⎣', '⎢'],
+  ']': ['⎤', '⎥', '⎦', '⎥'],
+  '{': ['⎧', '⎨', '⎩', '⎪'],
+  '}': ['⎫', '⎬', '⎭', '⎪'],
+  '⌈': ['⎡', '⎢', '⎢', '⎢'],
+  '⌉': ['⎤', '⎥', '⎥', '⎥'],
+  '⌊': ['⎢', '⎢', '⎣', '⎢'],
+  '⌋': ['⎥', '⎥', '⎦', '⎥'],
+  '|': ['│', '│', '│', '│'],
+  '∥': ['‖', '‖', '‖', '‖'],
+};
+
+// Renders the AST as rows of monospace text, for terminals and logs.
+class TextRenderer {
+  // set by \mathbb, the only alphabet with its own characters here
+  private isDoubleStruck = false;
+  // scripts are set without the spaces around operators
+  private isScript = false;
+
+  renderDocument(document: LatexNode): string {
+    const environment = document.children[0];
+    const lines = environment.children.flatMap(
+      (paragraph) => paragraph.children
+    );
+    const blocks = lines.map((line) => this.renderList(line.children));
+    return blocks
+      .map((block) => block.rows.map((row) => row.trimEnd()).join('\n'))
+      .join('\n');
+  }
+
+  renderList(nodes: LatexNode[]): TextBlock {
+    const atoms = classifyAtoms(nodes);
+    const blocks: TextBlock[] = [];
+    let previous = null;
+    for (let i = 0; i < nodes.length; i++) {
+      const atom = atoms[i];
+      if (atom && previous) {
+        const space = atomSpacing(previous.right, atom.left, this.isScript);
+        if (space > 0) {
+          blocks.push(textBlock(' '));
+        }
+      }
+      previous = atom ?? previous;
+      blocks.push(this.renderNode(nodes[i]));
+    }
+    return hconcat(blocks);
+  }
+
+  renderNode(node: LatexNode): TextBlock {
+    switch (node.nodeType) {
+      case NodeType.Plain:
+        return this.renderPlain(node);
+      case NodeType.Error:
+        return this.withScripts(node, textBlock(node.token!.token));
+      case NodeType.PGroup:
+        return this.withScripts(node, this.fenced(node.children, '(', ')'));
+      case NodeType.BGroup:
+        return this.withScripts(node, this.fenced(node.children, '[', ']'));
+      case NodeType.CBGroup:
+        return this.withScripts(node, this.renderList(node.children));
+      case NodeType.LeftRight:
+        return this.withScripts(node, this.renderLeftRight(node));
+      case NodeType.Environment:
+        return this.renderEnvironment(node);
+      case NodeType.Line:
+        return this.renderList(node.children);
+    }
+    return textBlock('');
+  }
+
+  renderPlain(node: LatexNode): TextBlock {
+    const token = node.token!;
+    const tokenType = token.tokenType;
+    switch (tokenType) {
+      case TokenType.Alphabet:
+        return this.withScripts(node, textBlock(this.letters(token.token)));
+      case TokenType.Number:
+      case TokenType.Character:
+        return this.withScripts(node, textBlock(token.token));
+      case TokenType.Text:
+        return this.withScripts(node, textBlock(node.rawArgs![0]));
+      case TokenType.ColorBox:
+      case TokenType.FColorBox: {
+        const args = node.rawArgs!;
+        return this.withScripts(node, textBlock(args[args.length - 1]));
+      }
+      case TokenType.Limit:
+        return this.withLimits(node, textBlock('lim'));
+      case TokenType.Sin:
+      case TokenType.Cos:
+      case TokenType.Tan:
+      case TokenType.Log:
+        return this.withScripts(node, textBlock(token.token.slice(1)));
+      case TokenType.Frac:
+      case TokenType.Dfrac:
+      case TokenType.Tfrac:
+      case TokenType.Cfrac:
+        return this.withScripts(node, this.renderFraction(node, true));
+      case TokenType.Binom:
+      case TokenType.Dbinom:
+      case TokenType.Tbinom: {
+        const binomial = this.renderFraction(node, false);
+        return this.withScripts(node, delimit(binomial, '(', ')'));
+      }
+      case TokenType.Genfrac: {
+        const [left, right, thickness, , numerator, denominator] =
+          node.children;
+        const hasBar = !/^0(\.0*)?[a-z]*$/.test(nodeText(thickness));
+        const fraction = this.renderFraction(
+          { ...node, children: [numerator, denominator] },
+          hasBar
+        );
+        const open = delimiterChar(left);
+        const close = delimiterChar(right);
+        return this.withScripts(node, delimit(fraction, open, close));
+      }
+      case TokenType.SquareRoot:
+        return this.withScripts(node, this.renderSquareRoot(node));
+      case TokenType.Overline:
+      case TokenType.WideHat:
+      case TokenType.WideTilde:
+      case TokenType.OverRightArrow:
+      case TokenType.OverLeftArrow:
+        return this.withScripts(node, this.renderOverAccent(node));
+      case TokenType.Underline: {
+        const base = this.renderList(node.children);
+        const line = textBlock('‾'.repeat(base.width));
+        return this.withScripts(node, vstack([base, line], 0));
+      }
+      case TokenType.MathBb: {
+        const isDoubleStruck = this.isDoubleStruck;
+        this.isDoubleStruck = true;
+        const content = this.renderList(node.children);
+        this.isDoubleStruck = isDoubleStruck;
+        return this.withScripts(node, content);
+      }
+      case TokenType.Hspace:
+        return textBlock(' '.repeat(spacesOf(node.rawArgs![0])));
+    }
+
+    if (lowercaseGreekMap[tokenType]) {
+      return this.withScripts(node, textBlock(lowercaseGreekMap[tokenType]));
+    }
+    if (uppercaseGreekMap[tokenType]) {
+      return this.withScripts(node, textBlock(uppercaseGreekMap[tokenType]));
+    }
+    if (symbolMap[tokenType]) {
+      return this.withScripts(node, textBlock(symbolMap[tokenType]));
+    }
+    if (spaceWidths[tokenType] !== undefined) {
+      const count = Math.max(0, Math.round(spaceWidths[tokenType] / 6));
+      return textBlock(' '.repeat(count));
+    }
+    if (bigOperatorMap[tokenType]) {
+      const char = bigOperatorMap[tokenType];
+      const operator = textBlock(char);
+      if (node.limits ?? !integralOperators.includes(char)) {
+        return this.withLimits(node, operator);
+      }
+      return this.withScripts(node, operator);
+    }
+    if (COMBINING_ACCENTS[tokenType]) {
+      return this.withScripts(node, this.renderAccent(node));
+    }
+    if (bigDelimiterSizes[tokenType]) {
+      const char = delimiterChar(node.children[0]) ?? '';
+      // \big and \Big take two rows, \bigg and \Bigg three
+      const height = bigDelimiterSizes[tokenType] > 2 ? 3 : 2;
+      return this.withScripts(node, tallDelimiter(char, height, height - 1));
+    }
+    if (delimiterMap[tokenType]) {
+      return this.withScripts(node, textBlock(delimiterMap[tokenType]));
+    }
+    if (node.children.length > 0) {
+      // commands like \mathbf and \textcolor that only change the look
+      return this.withScripts(node, this.renderList(node.children));
+    }
+    return this.withScripts(node, textBlock(token.token));
+  }
+
+  letters(text: string): string {
+    if (!this.isDoubleStruck) {
+      return text;
+    }
+    return [...text]
+      .map((char) => {
+        if (DOUBLE_STRUCK[char]) {
+          return DOUBLE_STRUCK[char];
+        }
+        if (/[A-Z]/.test(char)) {
+          const offset = char.charCodeAt(0) - 'A'.charCodeAt(0);
+          return String.fromCodePoint(0x1d538 + offset);
+        }
+        return char;
+      })
+      .join('');
+  }
+
+  // the parts stacked around a bar of ─, or without one for binomials. A
+  // missing part is empty.
+  renderFraction(node: LatexNode, hasBar: boolean): TextBlock {
+    const [numerator, denominator] = [0, 1].map((i) => {
+      const child = node.children[i];
+      return this.renderList(child ? [child] : []);
+    });
+    const width = Math.max(numerator.width, denominator.width) + 2;
+    if (!hasBar) {
+      return vstack([numerator, denominator], numerator.rows.length - 1, width);
+    }
+    const bar = textBlock('─'.repeat(width));
+    return vstack([numerator, bar, denominator], numerator.rows.length, width);
+  }
+
+  // √ with an overbar, and a vertical line beside content of several rows
+  renderSquareRoot(node: LatexNode): TextBlock {
+    const content = this.renderList(node.children);
+    const height = content.rows.length;
+    const sign = content.rows.map((_, i) => (i === height - 1 ? '√' : '│'));
+    const index = node.optionalArgs?.[0];
+    let prefix = '';
+    if (index) {
+      const indexBlock = this.renderScript(index.children);
+      const text = indexBlock.rows.length === 1 ? indexBlock.rows[0] : '';
+      prefix = toScript(text, SUPERSCRIPTS) ?? '';
+    }
+    const rows = [
+      ' '.repeat(prefix.length + 1) + '─'.repeat(content.width),
+      ...content.rows.map(
+        (row, i) =>
+          (i === height - 1 ? prefix : ' '.repeat(prefix.length)) +
+          sign[i] +
+          row
+      ),
+    ];
+    return {
+      rows,
+      baseline: content.baseline + 1,
+      width: prefix.length + 1 + content.width,
+    };
+  }
+
+  // a combining accent over a single character, a row above otherwise
+  renderAccent(node: LatexNode): TextBlock {
+    const base = this.renderList(node.children);
+    const accent = COMBINING_ACCENTS[node.token!.tokenType];
+    if (base.rows.length === 1 && base.width === 1) {
+      return textBlock(base.rows[0].trimEnd() + accent);
+    }
+    const mark = accentMap[node.token!.tokenType] ?? '→';
+    return vstack([textBlock(mark), base], 1);
+  }
+
+  renderOverAccent(node: LatexNode): TextBlock {
+    const base = this.renderList(node.children);
+    const width = base.width;
+    let line: string;
+    switch (node.token!.tokenType) {
+      case TokenType.WideHat:
+        line = width > 2 ? '╱' + ' '.repeat(width - 2) + '╲' : '^';
+        break;
+      case TokenType.WideTilde:
+        line = '~'.repeat(width);
+        break;
+      case TokenType.OverRightArrow:
+        line = '─'.repeat(Math.max(0, width - 1)) + '→';
+        break;
+      case TokenType.OverLeftArrow:
+        line = '←' + '─'.repeat(Math.max(0, width - 1));
+        break;
+      default:
+        line = '_'.repeat(width);
+    }
+    return vstack([textBlock(line), base], 1);
+  }
+
+  renderLeftRight(node: LatexNode): TextBlock {
+    const [left, ...rest] = node.children;
+    const right = rest.pop();
+    const parts: (LatexNode | TextBlock)[] = [];
+    const content: LatexNode[] = [];
+    const flush = () => {
+      if (content.length > 0) {
+        parts.push(this.renderList(content.splice(0)));
+      }
+    };
+    for (const child of rest) {
+      if (child.token?.tokenType === TokenType.Middle) {
+        flush();
+        parts.push(child);
+      } else {
+        content.push(child);
+      }
+    }
+    flush();
+    const blocks = parts.filter(isBlock);
+    const inner = hconcat(blocks);
+    const height = inner.rows.length;
+    const middle = (part: LatexNode | TextBlock) =>
+      isBlock(part)
+        ? part
+        : tallDelimiter(
+            delimiterChar(part.children[0]) ?? '',
+            height,
+            inner.baseline
+          );
+    return hconcat([
+      tallDelimiter(delimiterChar(left) ?? '', height, inner.baseline),
+      ...parts.map(middle),
+      tallDelimiter(delimiterChar(right) ?? '', height, inner.baseline),
+    ]);
+  }
+
+  fenced(nodes: LatexNode[], open: string, close: string): TextBlock {
+    return delimit(this.renderList(nodes), open, close);
+  }
+
+  renderEnvironment(node: LatexNode): TextBlock {
+    const envName = node.token!.token;
+    if (envName === 'cases') {
+      const table = this.renderTable(node, { aligns: ['left', 'left'] });
+      return hconcat([delimit(table, '{', null), textBlock(' ')]);
+    }
+    if (envName === 'array') {
+      const columns = parseColumnSpec(node.rawArgs?.[0] || '');
+      const aligns = columns.aligns.map(
+        (align): Align =>
+          (({ l: 'left', c: 'center', r: 'right' } as const)[align])
+      );
+      return this.renderTable(node, { aligns, rules: columns.rules });
+    }
+    switch (envName) {
+      case 'align':
+      case 'align*':
+      case 'aligned':
+      case 'split':
+        return this.renderTable(node, {
+          aligns: ['right', 'left'],
+          alignPairs: true,
+        });
+      case 'gather':
+      case 'gather*':
+      case 'gathered':
+      case 'multline':
+      case 'multline*':
+        return this.renderTable(node, { aligns: ['center'] });
+    }
+    const delimiters = MATRIX_DELIMITERS[envName];
+    if (delimiters) {
+      const table = this.renderTable(node, { aligns: ['center'] });
+      const [open, close] = delimiters.map(delimiterChar);
+      return delimit(table, open, close);
+    }
+    return this.renderTable(node, { aligns: ['left'] });
+  }
+
+  // Cells in columns two spaces apart, with the baseline on the middle row.
+  renderTable(node: LatexNode, options: TableOptions): TextBlock {
+    const { aligns, rules = [], alignPairs = false } = options;
+    const { rows } = collectRows(node);
+    const cells = rows.map((row) =>
+      row.cells.map((cell, j) => {
+        // like the layout, the right column of a pair starts after an empty
+        // atom, so a leading relation keeps its space
+        const isRight = alignPairs && j % 2 === 1;
+        return this.renderList(
+          isRight ? [createNode(NodeType.CBGroup), ...cell] : cell
+        );
+      })
+    );
+    const numOfColumns = Math.max(
+      aligns.length,
+      ...cells.map((row) => row.length)
+    );
+    const widths = [...Array(numOfColumns)].map((_, j) =>
+      Math.max(0, ...cells.map((row) => row[j]?.width ?? 0))
+    );
+    // a vertical rule for each | of the column specification
+    const separator = (j: number) => {
+      const count = rules[j] ?? 0;
+      if (j === 0 || j === numOfColumns) {
+        return '│'.repeat(count);
+      }
+      // amsmath's pairs of columns only have a gap between the pairs
+      const gap = alignPairs && j % 2 === 1 ? '' : ' ';
+      return count > 0 ? ' ' + '│'.repeat(count) + ' ' : gap + gap;
+    };
+    const lines = cells.map((row) =>
+      hconcat([
+        ...widths.flatMap((width, j) => {
+          const align = aligns[j % aligns.length] || 'left';
+          const cell = alignBlock(row[j] ?? textBlock(''), width, align);
+          return [textBlock(separator(j)), cell];
+        }),
+        textBlock(separator(numOfColumns)),
+      ])
+    );
+    if (lines.length === 0) {
+      return textBlock('');
+    }
+    const table = vstack(lines, 0);
+    const middle = Math.floor((table.rows.length - 1) / 2);
+    return { ...table, baseline: middle };
+  }
+
+  // Unicode super- and subscripts where every character has one, raised
+  // and lowered rows otherwise.
+  withScripts(node: LatexNode, base: TextBlock): TextBlock {
+    const { subscript, superscript } = node;
+    if (!subscript && !superscript) {
+      return base;
+    }
+    const sup = superscript && this.renderScript(superscript.children);
+    const sub = subscript && this.renderScript(subscript.children);
+    const supText = sup && inlineScript(sup, SUPERSCRIPTS);
+    const subText = sub && inlineScript(sub, SUBSCRIPTS);
+    const isInline =
+      base.rows.length === 1 &&
+      (!sup || supText !== null) &&
+      (!sub || subText !== null);
+    if (isInline) {
+      return textBlock(base.rows[0] + (subText ?? '') + (supText ?? ''));
+    }
+    const width = Math.max(sup?.width ?? 0, sub?.width ?? 0);
+    const scripts: TextBlock[] = [];
+    let baseline = 0;
+    if (sup) {
+      scripts.push(sup);
+      // the superscript ends on the row above the baseline
+      baseline = sup.rows.length;
+    }
+    scripts.push(textBlock(''));
+    if (sub) {
+      scripts.push(sub);
+    }
+    const column = vstack(scripts, baseline, width, 'left');
+    return hconcat([base, column]);
+  }
+
+  // Limits centred above and below, like \sum in display style.
+  withLimits(node: LatexNode, base: TextBlock): TextBlock {
+    const { subscript, superscript } = node;
+    if (!subscript && !superscript) {
+      return base;
+    }
+    const blocks: TextBlock[] = [];
+    if (superscript) {
+      blocks.push(this.renderScript(superscript.children));
+    }
+    const baseline = blocks.reduce((sum, b) => sum + b.rows.length, 0);
+    blocks.push(base);
+    if (subscript) {
+      blocks.push(this.renderScript(subscript.children));
+    }
+    return vstack(blocks, baseline + base.baseline);
+  }
+
+  renderScript(nodes: LatexNode[]): TextBlock {
+    const isScript = this.isScript;
+    this.isScript = true;
+    const block = this.renderList(nodes);
+    this.isScript = isScript;
+    return block;
+  }
+}
+
+function isBlock(part: LatexNode | TextBlock): part is TextBlock {
+  return 'rows' in part;
+}
+
+function textBlock(text: string): TextBlock {
+  return { rows: [text], baseline: 0, width: textWidth(text) };
+}
+
+// number of columns, not counting combining characters
+function textWidth(text: string): number {
+  return [...text.replace(/\p{M}/gu, '')].length;
+}
+
+function padRow(row: string, width: number, align: Align = 'left'): string {
+  const space = Math.max(0, width - textWidth(row));
+  const left =
+    align === 'left' ? 0 : align === 'right' ? space : Math.floor(space / 2);
+  return ' '.repeat(left) + row + ' '.repeat(space - left);
+}
+
+function alignBlock(block: TextBlock, width: number, align: Align): TextBlock {
+  return {
+    ...block,
+    rows: block.rows.map((row) => padRow(row, width, align)),
+    width: Math.max(width, block.width),
+  };
+}
+
+// Put blocks side by side on a common baseline.
+function hconcat(blocks: TextBlock[]): TextBlock {
+  if (blocks.length === 0) {
+    return textBlock('');
+  }
+  const above = Math.max(...blocks.map((block) => block.baseline));
+  const below = Math.max(
+    ...blocks.map((block) => block.rows.length - 1 - block.baseline)
+  );
+  const rows: string[] = [];
+  for (let i = -above; i <= below; i++) {
+    rows.push(
+      blocks
+        .map((block) => {
+          const row = block.rows[block.baseline + i];
+          return padRow(row ?? '', block.width);
+        })
+        .join('')
+    );
+  }
+  const width = blocks.reduce((sum, block) => sum + block.width, 0);
+  return { rows, baseline: above, width };
+}
+
+// Stack blocks from top to bottom, with the baseline on row `baseline`.
+function vstack(
+  blocks: TextBlock[],
+  baseline: number,
+  width: number = Math.max(...blocks.map((block) => block.width)),
+  align: Align = 'center'
+): TextBlock {
+  const rows = blocks.flatMap((block) =>
+    block.rows.map((row) => padRow(row, width, align))
+  );
+  return { rows, baseline, width };
+}
+
+// Delimiters around `block`, as tall as its rows. null leaves one side open.
+function delimit(
+  block: TextBlock,
+  open: string | null,
+  close: string | null
+): TextBlock {
+  const height = block.rows.length;
+  const blocks = [block];
+  if (open) {
+    blocks.unshift(tallDelimiter(open, height, block.baseline));
+  }
+  if (close) {
+    blocks.push(tallDelimiter(close, height, block.baseline));
+  }
+  return hconcat(blocks);
+}
+
+function tallDelimiter(
+  char: string,
+  height: number,
+  baseline: number
+): TextBlock {
+  const pieces = TALL_DELIMITERS[char];
+  if (height <= 1 || !pieces) {
+    const rows = [...Array(Math.max(1, height))].map((_, i) =>
+      i === baseline || height <= 1 ? char : ' '.repeat(textWidth(char))
+    );
+    return { rows, baseline, width: textWidth(char) };
+  }
+  const [top, middle, bottom, extension] = pieces;
+  const center = Math.floor((height - 1) / 2);
+  const rows = [...Array(height)].map((_, i) => {
+    if (i === 0) {
+      return top;
+    }
+    if (i === height - 1) {
+      return bottom;
+    }
+    // only braces have a middle piece of their own
+    return i === center && (char === '{' || char === '}') ? middle : extension;
+  });
+  return { rows, baseline, width: 1 };
+}
+
+// the script as a single line of Unicode script characters, if possible
+function inlineScript(
+  block: TextBlock,
+  map: { [key: string]: string }
+): string | null {
+  if (block.rows.length !== 1) {
+    return null;
+  }
+  return toScript(block.rows[0].trimEnd(), map);
+}
+
+function toScript(text: string, map: { [key: string]: string }) {
+  const chars = [...text];
+  if (chars.length === 0 || chars.some((char) => !map[char])) {
+    return null;
+  }
+  return chars.map((char) => map[char]).join('');
+}
+
+// \hspace in spaces of half an em, one space for invalid dimensions
+function spacesOf(dimension: string): number {
+  const em = parseDimension(dimension, 1);
+  return em === null ? 1 : Math.max(0, Math.round(em * 2));
+}
+
+// Render LaTeX as multi-line Unicode text for terminals and logs.
+export function renderLatexToText(
+  latex: string,
+  options: Partial<ParseOptions> = {}
+): string {
+  const opts: ParseOptions = { ...DefaultParseOptions, ...options };
+  return new TextRenderer().renderDocument(parseLatex(latex, opts));
+}
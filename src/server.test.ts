@@ -0,0 +1,87 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createRenderServer } from './server.ts';
+
+let server: http.Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createRenderServer();
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+  baseUrl = `http://localhost:${port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('createRenderServer', () => {
+  test('renders by GET', async () => {
+    const response = await fetch(`${baseUrl}/render.svg?tex=x%5E2`);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('image/svg+xml');
+    expect(await response.text()).toContain('<svg');
+  });
+
+  test('renders by POST', async () => {
+    const response = await fetch(`${baseUrl}/render`, {
+      method: 'POST',
+      body: JSON.stringify({
+        tex: 'x',
+        format: 'png',
+        options: { padding: 4 },
+      }),
+    });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('image/png');
+  });
+
+  test('answers parse errors with their location', async () => {
+    const response = await fetch(`${baseUrl}/render.mml?tex=%5Cfrac%7Ba`);
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ line: 1, column: 8 });
+  });
+
+  test('ignores query parameters that are no options', async () => {
+    const response = await fetch(`${baseUrl}/render.png?tex=x&macros=1`);
+    expect(response.status).toBe(200);
+  });
+
+  test('rejects unknown options and oversized images', async () => {
+    const huge = await fetch(`${baseUrl}/render.png?tex=x&fontSize=100000`);
+    expect(huge.status).toBe(400);
+    const invalid = await fetch(`${baseUrl}/render.png?tex=x&fontSize=big`);
+    expect(invalid.status).toBe(400);
+    const post = await fetch(`${baseUrl}/render`, {
+      method: 'POST',
+      body: JSON.stringify({ tex: 'x', options: { macros: {} } }),
+    });
+    expect(post.status).toBe(400);
+  });
+
+  test('limits padding and the size of auto-sized images', async () => {
+    const padded = await fetch(`${baseUrl}/render.png?tex=x&padding=20000`);
+    expect(padded.status).toBe(400);
+    const wide = await fetch(
+      `${baseUrl}/render.png?tex=${'x'.repeat(20)}&fontSize=1000`
+    );
+    expect(wide.status).toBe(400);
+    expect((await wide.json()).error).toContain('over the limit of 4096');
+  });
+
+  test('answers bodies over the limit with 413', async () => {
+    const response = await fetch(`${baseUrl}/render`, {
+      method: 'POST',
+      body: 'x'.repeat(2 * 1024 * 1024),
+    });
+    expect(response.status).toBe(413);
+    expect(response.headers.get('connection')).toBe('close');
+    expect(await response.json()).toEqual({ error: 'Request body too large' });
+  });
+
+  test('answers unknown paths and methods', async () => {
+    expect((await fetch(`${baseUrl}/nothing`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/render`)).status).toBe(405);
+  });
+});
@@ -0,0 +1,330 @@
+import http from 'http';
+import { LruCache } from './cache.ts';
+import { ParseError } from './error.ts';
+import { fontSetNames } from './font.ts';
+import { renderLatexToMathML } from './mathml.ts';
+import { DefaultRenderOptions, RenderOptions } from './options.ts';
+import { initRendering, measureLatex, renderLatex } from './render.ts';
+import { renderLatexToSvg } from './svg.ts';
+
+export type ServerOptions = {
+  // number of rendered responses kept in memory
+  cacheSize: number;
+  // largest request body accepted by POST /render, in bytes
+  maxBodySize: number;
+  // options used where a request doesn't set its own
+  renderOptions: Partial<RenderOptions>;
+};
+
+export const DefaultServerOptions: ServerOptions = {
+  cacheSize: 1000,
+  maxBodySize: 1024 * 1024,
+  renderOptions: { autoSize: true },
+};
+
+type Format = 'png' | 'svg' | 'mathml';
+
+const CONTENT_TYPES: { [format in Format]: string } = {
+  png: 'image/png',
+  svg: 'image/svg+xml',
+  mathml: 'application/mathml+xml',
+};
+
+// paths of the GET endpoints
+const FORMAT_PATHS: { [path: string]: Format } = {
+  '/render.png': 'png',
+  '/render.svg': 'svg',
+  '/render.mml': 'mathml',
+};
+
+// Render options a request may set. Fonts stay as the server registered
+// them, though a request may pick one of their sets.
+const REQUEST_OPTIONS = [
+  'fontSet',
+  'fontSize',
+  'width',
+  'height',
+  'fillBackground',
+  'backgroundColor',
+  'foregroundColor',
+  'autoSize',
+  'padding',
+  'horizontalAlign',
+  'verticalAlign',
+  'throwOnError',
+  'errorColor',
+] as const;
+
+// values of the options that take one of a few strings
+const CHOICES: { [name: string]: string[] } = {
+  horizontalAlign: ['left', 'center'],
+  verticalAlign: ['top', 'center', 'baseline'],
+};
+
+// options whose default value doesn't tell their type
+const OPTION_TYPES: { [name: string]: string } = {
+  fontSet: 'string',
+};
+
+// keeps a request from allocating a huge canvas
+const MAX_IMAGE_SIZE = 4096;
+const MAX_PADDING = 256;
+
+type RenderRequest = {
+  tex: string;
+  format: Format;
+  options: Partial<RenderOptions>;
+};
+
+type RenderResponse = {
+  contentType: string;
+  body: Buffer | string;
+};
+
+// An error answered with `status` and `message` instead of a 500.
+class RequestError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+// Serves rendered formulas over HTTP:
+//   GET /render.png?tex=x^2&fontSize=32 (also /render.svg and /render.mml)
+//   POST /render {"tex": "x^2", "format": "svg", "options": {...}}
+// Responses are cached by their input and options.
+export function createRenderServer(
+  options: Partial<ServerOptions> = {}
+): http.Server {
+  const opts: ServerOptions = { ...DefaultServerOptions, ...options };
+  const cache = new LruCache<string, RenderResponse>(opts.cacheSize);
+  // fonts are registered once for all requests
+  initRendering();
+
+  const handle = async (req: http.IncomingMessage) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    let request: RenderRequest;
+    if (url.pathname === '/render') {
+      if (req.method !== 'POST') {
+        throw new RequestError(405, 'Use POST for /render');
+      }
+      const body = await readBody(req, opts.maxBodySize);
+      request = parseJsonRequest(body);
+    } else if (FORMAT_PATHS[url.pathname]) {
+      if (req.method !== 'GET' && req.method !== 'HEAD') {
+        throw new RequestError(405, `Use GET for ${url.pathname}`);
+      }
+      request = parseQueryRequest(url, FORMAT_PATHS[url.pathname]);
+    } else {
+      throw new RequestError(404, `Not found: ${url.pathname}`);
+    }
+    const key = cacheKey(request);
+    let response = cache.get(key);
+    if (!response) {
+      response = render(request, opts.renderOptions);
+      cache.set(key, response);
+    }
+    return response;
+  };
+
+  return http.createServer((req, res) => {
+    handle(req)
+      .then(({ contentType, body }) => {
+        res.writeHead(200, {
+          'Content-Type': contentType,
+          'Content-Length': Buffer.byteLength(body),
+        });
+        res.end(req.method === 'HEAD' ? undefined : body);
+      })
+      .catch((error) => sendError(res, error));
+  });
+}
+
+function render(
+  { tex, format, options }: RenderRequest,
+  defaults: Partial<RenderOptions>
+): RenderResponse {
+  const renderOptions = { ...defaults, ...options };
+  const contentType = CONTENT_TYPES[format];
+  switch (format) {
+    case 'png': {
+      // an auto-sized image is as large as the formula, so its size is
+      // checked before the canvas is created
+      const { width, height } = measureLatex(tex, renderOptions);
+      if (width > MAX_IMAGE_SIZE || height > MAX_IMAGE_SIZE) {
+        throw new RequestError(
+          400,
+          `The image would be ${width}x${height}, over the limit of ${MAX_IMAGE_SIZE}`
+        );
+      }
+      return { contentType, body: renderLatex(tex, renderOptions) };
+    }
+    case 'svg':
+      return { contentType, body: renderLatexToSvg(tex, renderOptions) };
+    case 'mathml':
+      return { contentType, body: renderLatexToMathML(tex, renderOptions) };
+  }
+}
+
+// Parse errors are the client's fault and come back with their location.
+function sendError(res: http.ServerResponse, error: unknown) {
+  let status = 500;
+  let body: object = { error: 'Internal server error' };
+  if (error instanceof RequestError) {
+    status = error.status;
+    body = { error: error.message };
+  } else if (error instanceof ParseError) {
+    status = 400;
+    body = {
+      error: error.message,
+      line: error.line,
+      column: error.column,
+      found: error.found,
+      expected: error.expected,
+    };
+  } else {
+    console.error(error);
+  }
+  const json = JSON.stringify(body);
+  const headers: http.OutgoingHttpHeaders = {
+    'Content-Type': 'application/json',
+    'Content-Length': Buffer.byteLength(json),
+  };
+  if (status === 413) {
+    // the connection can't be reused while the body is still coming in
+    headers.Connection = 'close';
+  }
+  res.writeHead(status, headers);
+  res.end(json);
+}
+
+function readBody(req: http.IncomingMessage, limit: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        // drain the rest unread, so the client still gets the response
+        req.off('data', onData);
+        req.resume();
+        chunks.length = 0;
+        reject(new RequestError(413, 'Request body too large'));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function parseQueryRequest(url: URL, format: Format): RenderRequest {
+  const tex = url.searchParams.get('tex');
+  if (tex === null) {
+    throw new RequestError(400, 'Missing parameter tex');
+  }
+  const options: { [key: string]: unknown } = {};
+  for (const name of REQUEST_OPTIONS) {
+    const value = url.searchParams.get(name);
+    if (value !== null) {
+      options[name] = fromQueryValue(name, value);
+    }
+  }
+  return { tex, format, options: validateOptions(options) };
+}
+
+function parseJsonRequest(body: string): RenderRequest {
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    throw new RequestError(400, 'Request body is not valid JSON');
+  }
+  if (typeof json !== 'object' || json === null) {
+    throw new RequestError(400, 'Request body must be a JSON object');
+  }
+  const {
+    tex,
+    format = 'png',
+    options = {},
+  } = json as {
+    [key: string]: unknown;
+  };
+  if (typeof tex !== 'string') {
+    throw new RequestError(400, 'tex must be a string');
+  }
+  if (typeof format !== 'string' || !(format in CONTENT_TYPES)) {
+    const formats = Object.keys(CONTENT_TYPES).join(', ');
+    throw new RequestError(400, `format must be one of ${formats}`);
+  }
+  if (typeof options !== 'object' || options === null) {
+    throw new RequestError(400, 'options must be an object');
+  }
+  return {
+    tex,
+    format: format as Format,
+    options: validateOptions(options as { [key: string]: unknown }),
+  };
+}
+
+// Query values are strings, converted by the type of the default value.
+function fromQueryValue(name: string, value: string): unknown {
+  switch (typeof DefaultRenderOptions[name as keyof RenderOptions]) {
+    case 'number':
+      return value.trim() === '' ? NaN : Number(value);
+    case 'boolean':
+      if (value === 'true' || value === '1' || value === '') {
+        return true;
+      }
+      if (value === 'false' || value === '0') {
+        return false;
+      }
+      return value;
+    default:
+      return value;
+  }
+}
+
+// Only the options in `REQUEST_OPTIONS`, each of the type of its default.
+function validateOptions(options: {
+  [key: string]: unknown;
+}): Partial<RenderOptions> {
+  const result: { [key: string]: unknown } = {};
+  for (const [name, value] of Object.entries(options)) {
+    if (!(REQUEST_OPTIONS as readonly string[]).includes(name)) {
+      throw new RequestError(400, `Unknown option ${name}`);
+    }
+    const expected =
+      OPTION_TYPES[name] ??
+      typeof DefaultRenderOptions[name as keyof RenderOptions];
+    const choices = name === 'fontSet' ? fontSetNames() : CHOICES[name];
+    const isValid =
+      typeof value === expected &&
+      (typeof value !== 'number' || (isFinite(value) && value >= 0)) &&
+      (!choices || choices.includes(value as string));
+    if (!isValid) {
+      throw new RequestError(400, `Invalid value of ${name}`);
+    }
+    result[name] = value;
+  }
+  const { fontSize, width, height } = result;
+  for (const size of [fontSize, width, height]) {
+    if (typeof size === 'number' && size > MAX_IMAGE_SIZE) {
+      throw new RequestError(400, `Sizes are limited to ${MAX_IMAGE_SIZE}`);
+    }
+  }
+  if (typeof result.padding === 'number' && result.padding > MAX_PADDING) {
+    throw new RequestError(400, `Padding is limited to ${MAX_PADDING}`);
+  }
+  return result as Partial<RenderOptions>;
+}
+
+// Requests with the same input and options in any order share an entry.
+function cacheKey({ tex, format, options }: RenderRequest): string {
+  const sorted = Object.entries(options).sort(([a], [b]) =>
+    a < b ? -1 : a > b ? 1 : 0
+  );
+  return JSON.stringify([format, tex, sorted]);
+}
@@ -0,0 +1,278 @@
+import { LatexNode, NodeType, TokenType } from './ast.ts';
+import { bigOperatorMap, delimiterMap } from './symbols.ts';
+
+// TeX atom classes, which decide the space between neighbouring atoms.
+export enum AtomClass {
+  Ord = 'Ord',
+  Op = 'Op',
+  Bin = 'Bin',
+  Rel = 'Rel',
+  Open = 'Open',
+  Close = 'Close',
+  Punct = 'Punct',
+  Inner = 'Inner',
+}
+
+// Classes at the two ends of an atom. A parenthesized group starts like an
+// opening delimiter and ends like a closing one.
+export type Atom = {
+  left: AtomClass;
+  right: AtomClass;
+};
+
+// Widths of the spacing commands in mu, 1/18 em.
+export const spaceWidths: { [key: string]: number } = {
+  [TokenType.ThinSpace]: 3,
+  [TokenType.MediumSpace]: 4,
+  [TokenType.MediumSpaceAlt]: 4,
+  [TokenType.ThickSpace]: 5,
+  [TokenType.NegativeThinSpace]: -3,
+  [TokenType.ControlSpace]: 6,
+  [TokenType.Thinspace]: 3,
+  [TokenType.Medspace]: 4,
+  [TokenType.Thickspace]: 5,
+  [TokenType.Negthinspace]: -3,
+  [TokenType.Negmedspace]: -4,
+  [TokenType.Negthickspace]: -5,
+  [TokenType.Enspace]: 9,
+  [TokenType.Quad]: 18,
+  [TokenType.Qquad]: 36,
+};
+
+const THIN_SPACE = 3;
+const MEDIUM_SPACE = 4;
+const THICK_SPACE = 5;
+
+const ATOM_CLASSES = [
+  AtomClass.Ord,
+  AtomClass.Op,
+  AtomClass.Bin,
+  AtomClass.Rel,
+  AtomClass.Open,
+  AtomClass.Close,
+  AtomClass.Punct,
+  AtomClass.Inner,
+];
+
+// The spacing table of the TeXbook in the encoding of tex.web, rows for the
+// left and columns for the right atom in the order of `ATOM_CLASSES`. 0 is
+// no space, 1 a thin space only outside of scripts, 2 a thin space, 3 a
+// medium and 4 a thick space only outside of scripts. * can't happen since
+// binary operators next to these classes become ordinary atoms.
+const SPACING_TABLE = [
+  '02340001',
+  '22*40001',
+  '33**3**3',
+  '44*04004',
+  '00*00000',
+  '02340001',
+  '11*11111',
+  '12341011',
+];
+
+const BINARY_OPERATORS = new Set<string>([
+  TokenType.Plus,
+  TokenType.Minus,
+  TokenType.PlusMinus,
+  TokenType.Times,
+  TokenType.Divide,
+  TokenType.Cdot,
+  TokenType.Circle,
+  TokenType.Modulus,
+]);
+
+const RELATIONS = new Set<string>([
+  TokenType.Equals,
+  TokenType.Equivalent,
+  TokenType.LessThan,
+  TokenType.GreaterThan,
+  TokenType.LessThanOrEqual,
+  TokenType.GreaterThanOrEqual,
+  TokenType.Sim,
+  TokenType.Simeq,
+  TokenType.Colon,
+  TokenType.BigM,
+  TokenType.UpperBigM,
+  TokenType.BiggM,
+  TokenType.UpperBiggM,
+]);
+
+const PUNCTUATION = new Set<string>([TokenType.Comma, TokenType.Semicolon]);
+
+const OPERATORS = new Set<string>([
+  TokenType.Limit,
+  TokenType.Sin,
+  TokenType.Cos,
+  TokenType.Tan,
+  TokenType.Log,
+  ...Object.keys(bigOperatorMap),
+]);
+
+const OPENINGS = new Set<string>([
+  TokenType.BigL,
+  TokenType.UpperBigL,
+  TokenType.BiggL,
+  TokenType.UpperBiggL,
+]);
+
+const CLOSINGS = new Set<string>([
+  TokenType.BigR,
+  TokenType.UpperBigR,
+  TokenType.BiggR,
+  TokenType.UpperBiggR,
+]);
+
+const INNERS = new Set<string>([
+  TokenType.Frac,
+  TokenType.Dfrac,
+  TokenType.Tfrac,
+  TokenType.Cfrac,
+  TokenType.Binom,
+  TokenType.Dbinom,
+  TokenType.Tbinom,
+  TokenType.Genfrac,
+]);
+
+const OPENING_DELIMITERS = '([{⟨⌊⌈';
+const CLOSING_DELIMITERS = ')]}⟩⌋⌉';
+
+const atom = (left: AtomClass, right: AtomClass = left): Atom => ({
+  left,
+  right,
+});
+
+// The atom a node forms, or null for nodes like spaces that aren't atoms
+// and leave the atoms around them neighbours.
+export function atomOf(node: LatexNode): Atom | null {
+  switch (node.nodeType) {
+    case NodeType.PGroup:
+    case NodeType.BGroup:
+      return atom(AtomClass.Open, AtomClass.Close);
+    case NodeType.LeftRight:
+      return atom(AtomClass.Inner);
+    case NodeType.Plain:
+      break;
+    default:
+      return atom(AtomClass.Ord);
+  }
+  const tokenType = node.token!.tokenType;
+  if (
+    spaceWidths[tokenType] !== undefined ||
+    tokenType === TokenType.Hspace ||
+    tokenType === TokenType.Color
+  ) {
+    return null;
+  }
+  if (BINARY_OPERATORS.has(tokenType)) {
+    return atom(AtomClass.Bin);
+  }
+  if (RELATIONS.has(tokenType)) {
+    return atom(AtomClass.Rel);
+  }
+  if (PUNCTUATION.has(tokenType)) {
+    return atom(AtomClass.Punct);
+  }
+  if (OPERATORS.has(tokenType)) {
+    return atom(AtomClass.Op);
+  }
+  if (INNERS.has(tokenType)) {
+    return atom(AtomClass.Inner);
+  }
+  const delimiter = delimiterMap[tokenType] || '';
+  if (
+    OPENINGS.has(tokenType) ||
+    (delimiter && OPENING_DELIMITERS.includes(delimiter))
+  ) {
+    return atom(AtomClass.Open);
+  }
+  if (
+    CLOSINGS.has(tokenType) ||
+    (delimiter && CLOSING_DELIMITERS.includes(delimiter))
+  ) {
+    return atom(AtomClass.Close);
+  }
+  return atom(AtomClass.Ord);
+}
+
+// Classify the nodes of a list. Binary operators without an operand on
+// either side, like the sign in -x or a = -b, become ordinary atoms.
+export function classifyAtoms(nodes: LatexNode[]): (Atom | null)[] {
+  const atoms = nodes.map(atomOf);
+  const demote = (binary: Atom) => {
+    binary.left = binary.right = AtomClass.Ord;
+  };
+  let previous: Atom | null = null;
+  for (const current of atoms) {
+    if (!current) {
+      continue;
+    }
+    if (current.left === AtomClass.Bin) {
+      const noOperand = [
+        AtomClass.Bin,
+        AtomClass.Op,
+        AtomClass.Rel,
+        AtomClass.Open,
+        AtomClass.Punct,
+      ];
+      if (!previous || noOperand.includes(previous.right)) {
+        demote(current);
+      }
+    }
+    if (previous?.right === AtomClass.Bin) {
+      const noOperand = [AtomClass.Rel, AtomClass.Close, AtomClass.Punct];
+      if (noOperand.includes(current.left)) {
+        demote(previous);
+      }
+    }
+    previous = current;
+  }
+  if (previous?.right === AtomClass.Bin) {
+    demote(previous);
+  }
+  return atoms;
+}
+
+// Space in mu between two neighbouring atoms. Script styles drop all but
+// the thin spaces around operators.
+export function atomSpacing(
+  left: AtomClass,
+  right: AtomClass,
+  isScript: boolean
+): number {
+  const row = SPACING_TABLE[ATOM_CLASSES.indexOf(left)];
+  switch (row[ATOM_CLASSES.indexOf(right)]) {
+    case '1':
+      return isScript ? 0 : THIN_SPACE;
+    case '2':
+      return THIN_SPACE;
+    case '3':
+      return isScript ? 0 : MEDIUM_SPACE;
+    case '4':
+      return isScript ? 0 : THICK_SPACE;
+    default:
+      return 0;
+  }
+}
+
+// Convert a TeX dimension such as `2em`, `0.5pt` or `18mu` to pixels.
+// Returns null when `text` isn't a dimension.
+export function parseDimension(text: string, fontSize: number): number | null {
+  const match = text.trim().match(/^(-?\d*\.?\d+)\s*(pt|em|ex|mu|px)?$/);
+  if (!match) {
+    return null;
+  }
+  const value = parseFloat(match[1]);
+  switch (match[2]) {
+    case 'em':
+      return value * fontSize;
+    case 'ex':
+      return value * fontSize * 0.431;
+    case 'mu':
+      return (value * fontSize) / 18;
+    case 'px':
+      return value;
+    default:
+      // a 10pt font is `fontSize` pixels high
+      return (value * fontSize) / 10;
+  }
+}
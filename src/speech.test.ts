@@ -0,0 +1,54 @@
+import { initRendering, renderLatex } from './render.ts';
+import { renderLatexToSpeech } from './speech.ts';
+
+const brief = { verbosity: 'brief' } as const;
+
+describe('renderLatexToSpeech', () => {
+  test('reads squares and cubes', () => {
+    expect(renderLatexToSpeech('x^2')).toBe('x squared');
+    expect(renderLatexToSpeech('x^3')).toBe('x cubed');
+  });
+
+  test('reads fractions by verbosity', () => {
+    expect(renderLatexToSpeech('\\frac{1}{2}')).toBe(
+      'the fraction with numerator 1 and denominator 2'
+    );
+    expect(renderLatexToSpeech('\\frac{1}{2}', brief)).toBe('1 over 2');
+    expect(renderLatexToSpeech('\\frac{a+1}{b}')).toBe(
+      'the fraction with numerator a plus 1 and denominator b, end fraction'
+    );
+  });
+
+  test('reads roots, sums and binomials', () => {
+    expect(renderLatexToSpeech('\\sqrt{x}')).toBe(
+      'the square root of x, end root'
+    );
+    expect(renderLatexToSpeech('\\sqrt{x}', brief)).toBe(
+      'the square root of x'
+    );
+    expect(renderLatexToSpeech('\\sum_{i=1}^{n} i')).toBe(
+      'the sum from i equals 1 to n of i'
+    );
+    expect(renderLatexToSpeech('\\binom{n}{k}')).toBe('n choose k');
+  });
+
+  test('reads the delimiters of \\genfrac', () => {
+    expect(renderLatexToSpeech('\\genfrac{(}{)}{0pt}{}{n}{k}')).toBe(
+      'open paren n choose k close paren'
+    );
+    expect(renderLatexToSpeech('\\genfrac{}{}{0pt}{}{n}{k}')).toBe(
+      'n choose k'
+    );
+  });
+
+  test('reads a leading minus as negative', () => {
+    expect(renderLatexToSpeech('-x')).toBe('negative x');
+  });
+
+  test('comes with the image from renderLatex on request', () => {
+    initRendering();
+    const { image, speech } = renderLatex('x^2', { speech: true });
+    expect(image).toBeInstanceOf(Buffer);
+    expect(speech).toBe('x squared');
+  });
+});
@@ -0,0 +1,603 @@
+import { MATRIX_DELIMITERS, collectRows } from './array.ts';
+import { LatexNode, NodeType, TokenType, nodeText } from './ast.ts';
+import { DefaultParseOptions, ParseOptions, parseLatex } from './parser.ts';
+import { AtomClass, classifyAtoms } from './spacing.ts';
+import {
+  bigDelimiterSizes,
+  bigOperatorMap,
+  delimiterChar,
+  delimiterMap,
+  integralOperators,
+  lowercaseGreekMap,
+  uppercaseGreekMap,
+} from './symbols.ts';
+
+export type SpeechOptions = {
+  // 'verbose' announces where fractions, roots and scripts start and end,
+  // 'brief' keeps to the shortest unambiguous reading
+  verbosity: 'verbose' | 'brief';
+};
+
+export const DefaultSpeechOptions: SpeechOptions = {
+  verbosity: 'verbose',
+};
+
+// Words for the symbols, keyed by token type.
+const SYMBOL_WORDS: { [key: string]: string } = {
+  [TokenType.Plus]: 'plus',
+  [TokenType.Minus]: 'minus',
+  [TokenType.PlusMinus]: 'plus or minus',
+  [TokenType.Times]: 'times',
+  [TokenType.Cdot]: 'times',
+  [TokenType.Divide]: 'divided by',
+  [TokenType.Modulus]: 'modulo',
+  [TokenType.Percent]: 'percent',
+  [TokenType.Equals]: 'equals',
+  [TokenType.Equivalent]: 'is equivalent to',
+  [TokenType.LessThan]: 'is less than',
+  [TokenType.GreaterThan]: 'is greater than',
+  [TokenType.LessThanOrEqual]: 'is less than or equal to',
+  [TokenType.GreaterThanOrEqual]: 'is greater than or equal to',
+  [TokenType.Sim]: 'is similar to',
+  [TokenType.Simeq]: 'is asymptotically equal to',
+  [TokenType.Infinity]: 'infinity',
+  [TokenType.Angle]: 'angle',
+  [TokenType.Triangle]: 'triangle',
+  [TokenType.Circle]: 'composed with',
+  [TokenType.Square]: 'square',
+  [TokenType.Bottom]: 'perpendicular to',
+  [TokenType.Ell]: 'script l',
+  [TokenType.Cdots]: 'dot dot dot',
+  [TokenType.Comma]: 'comma',
+  [TokenType.Period]: 'point',
+  [TokenType.Colon]: 'colon',
+  [TokenType.Semicolon]: 'semicolon',
+  [TokenType.At]: 'at',
+  [TokenType.Backslash]: 'backslash',
+};
+
+// Words for the characters the lexer has no token type of.
+const CHARACTER_WORDS: { [key: string]: string } = {
+  '!': 'factorial',
+  "'": 'prime',
+  '*': 'star',
+  '?': 'question mark',
+};
+
+// Words for the delimiters, keyed by their character in `delimiterMap`.
+const DELIMITER_WORDS: { [key: string]: string } = {
+  '(': 'open paren',
+  ')': 'close paren',
+  '[': 'open bracket',
+  ']': 'close bracket',
+  '{': 'open brace',
+  '}': 'close brace',
+  '|': 'vertical bar',
+  '∥': 'double vertical bar',
+  '⟨': 'open angle bracket',
+  '⟩': 'close angle bracket',
+  '⌊': 'open floor',
+  '⌋': 'close floor',
+  '⌈': 'open ceiling',
+  '⌉': 'close ceiling',
+  '/': 'slash',
+  '\\': 'backslash',
+};
+
+const BIG_OPERATOR_WORDS: { [key: string]: string } = {
+  '∑': 'sum',
+  '∏': 'product',
+  '∐': 'coproduct',
+  '∫': 'integral',
+  '∬': 'double integral',
+  '∭': 'triple integral',
+  '∮': 'contour integral',
+  '⋃': 'union',
+  '⋂': 'intersection',
+  '⨁': 'direct sum',
+};
+
+const FUNCTION_WORDS: { [key: string]: string } = {
+  [TokenType.Sin]: 'sine',
+  [TokenType.Cos]: 'cosine',
+  [TokenType.Tan]: 'tangent',
+  [TokenType.Log]: 'log',
+};
+
+// Accents are read after their base, like "x hat", except the arrows.
+const ACCENT_WORDS: { [key: string]: string } = {
+  [TokenType.Hat]: 'hat',
+  [TokenType.WideHat]: 'hat',
+  [TokenType.Bar]: 'bar',
+  [TokenType.Overline]: 'bar',
+  [TokenType.Dot]: 'dot',
+  [TokenType.Ddot]: 'double dot',
+  [TokenType.Tilde]: 'tilde',
+  [TokenType.WideTilde]: 'tilde',
+  [TokenType.Check]: 'check',
+  [TokenType.Breve]: 'breve',
+  [TokenType.Acute]: 'acute',
+  [TokenType.Grave]: 'grave',
+  [TokenType.Underline]: 'underline',
+};
+
+// the number sets of \mathbb
+const NUMBER_SETS: { [key: string]: string } = {
+  N: 'the natural numbers',
+  Z: 'the integers',
+  Q: 'the rational numbers',
+  R: 'the real numbers',
+  C: 'the complex numbers',
+};
+
+const ORDINALS = [
+  'zeroth',
+  'first',
+  'second',
+  'third',
+  'fourth',
+  'fifth',
+  'sixth',
+  'seventh',
+  'eighth',
+  'ninth',
+  'tenth',
+  'eleventh',
+  'twelfth',
+];
+
+const ROOT_WORDS: { [key: string]: string } = {
+  '2': 'square root',
+  '3': 'cube root',
+};
+
+// Reads the AST out in natural language in the style of ClearSpeak, for
+// screen readers and the alt text of images.
+class SpeechGenerator {
+  // set by \mathbb, which names the number sets
+  private isDoubleStruck = false;
+
+  constructor(private options: SpeechOptions) {}
+
+  get isVerbose(): boolean {
+    return this.options.verbosity === 'verbose';
+  }
+
+  speakDocument(document: LatexNode): string {
+    const environment = document.children[0];
+    const paragraphs = environment.children.map((paragraph) =>
+      paragraph.children
+        .map((line) => this.speakList(line.children))
+        .filter((text) => text)
+        .join(', ')
+    );
+    return paragraphs.filter((text) => text).join('. ');
+  }
+
+  speakList(nodes: LatexNode[]): string {
+    const atoms = classifyAtoms(nodes);
+    const words = nodes.map((node, i) => {
+      // a binary operator without operands is a sign
+      const atom = atoms[i];
+      const isSign = atom?.left === AtomClass.Ord;
+      const tokenType = node.token?.tokenType;
+      if (isSign && tokenType === TokenType.Minus && !hasScripts(node)) {
+        return 'negative';
+      }
+      if (isSign && tokenType === TokenType.Plus && !hasScripts(node)) {
+        return 'positive';
+      }
+      return this.speakNode(node);
+    });
+    return join(words);
+  }
+
+  speakNode(node: LatexNode): string {
+    switch (node.nodeType) {
+      case NodeType.Plain:
+        return this.speakPlain(node);
+      case NodeType.Error:
+        return this.withScripts(node, node.token!.token);
+      case NodeType.PGroup:
+        return this.withScripts(node, this.fenced(node.children, '(', ')'));
+      case NodeType.BGroup:
+        return this.withScripts(node, this.fenced(node.children, '[', ']'));
+      case NodeType.CBGroup:
+        return this.withScripts(node, this.speakList(node.children));
+      case NodeType.LeftRight:
+        return this.withScripts(node, this.speakLeftRight(node));
+      case NodeType.Environment:
+        return this.speakEnvironment(node);
+      case NodeType.Line:
+        return this.speakList(node.children);
+    }
+    return '';
+  }
+
+  speakPlain(node: LatexNode): string {
+    const token = node.token!;
+    const tokenType = token.tokenType;
+    switch (tokenType) {
+      case TokenType.Alphabet:
+        return this.withScripts(node, this.speakLetters(token.token));
+      case TokenType.Number:
+        return this.withScripts(node, token.token);
+      case TokenType.Text:
+        return this.withScripts(node, node.rawArgs![0].trim());
+      case TokenType.ColorBox:
+      case TokenType.FColorBox: {
+        const args = node.rawArgs!;
+        return this.withScripts(node, args[args.length - 1].trim());
+      }
+      case TokenType.Limit:
+        return this.speakLimit(node);
+      case TokenType.Frac:
+      case TokenType.Dfrac:
+      case TokenType.Tfrac:
+      case TokenType.Cfrac:
+        return this.withScripts(node, this.speakFraction(node.children));
+      case TokenType.Genfrac: {
+        const [left, right, thickness, , numerator, denominator] =
+          node.children;
+        const hasBar = !/^0(\.0*)?[a-z]*$/.test(nodeText(thickness));
+        if (hasBar) {
+          const fraction = this.speakFraction([numerator, denominator]);
+          return this.withScripts(node, fraction);
+        }
+        return this.withScripts(
+          node,
+          join([
+            this.speakDelimiter(left),
+            this.speakBinomial([numerator, denominator]),
+            this.speakDelimiter(right),
+          ])
+        );
+      }
+      case TokenType.Binom:
+      case TokenType.Dbinom:
+      case TokenType.Tbinom:
+        return this.withScripts(node, this.speakBinomial(node.children));
+      case TokenType.SquareRoot:
+        return this.withScripts(node, this.speakRoot(node));
+      case TokenType.Vec:
+      case TokenType.OverRightArrow:
+        return this.withScripts(
+          node,
+          join(['vector', this.speakList(node.children)])
+        );
+      case TokenType.OverLeftArrow:
+        return this.withScripts(
+          node,
+          join(['left vector', this.speakList(node.children)])
+        );
+      case TokenType.MathBb: {
+        const isDoubleStruck = this.isDoubleStruck;
+        this.isDoubleStruck = true;
+        const content = this.speakList(node.children);
+        this.isDoubleStruck = isDoubleStruck;
+        return this.withScripts(node, content);
+      }
+      case TokenType.Color:
+      case TokenType.Hspace:
+        return '';
+    }
+
+    const greek = greekName(tokenType);
+    if (greek) {
+      return this.withScripts(node, greek);
+    }
+    if (FUNCTION_WORDS[tokenType]) {
+      return this.withScripts(node, FUNCTION_WORDS[tokenType]);
+    }
+    if (bigOperatorMap[tokenType]) {
+      return this.speakBigOperator(node, bigOperatorMap[tokenType]);
+    }
+    if (ACCENT_WORDS[tokenType]) {
+      const base = this.speakList(node.children);
+      return this.withScripts(node, join([base, ACCENT_WORDS[tokenType]]));
+    }
+    if (bigDelimiterSizes[tokenType] || tokenType === TokenType.Middle) {
+      return this.withScripts(node, this.speakDelimiter(node.children[0]));
+    }
+    if (delimiterMap[tokenType]) {
+      return this.withScripts(node, this.speakDelimiter(node));
+    }
+    if (SYMBOL_WORDS[tokenType]) {
+      return this.withScripts(node, SYMBOL_WORDS[tokenType]);
+    }
+    if (node.children.length > 0) {
+      // commands like \mathbf and \textcolor that only change the look
+      return this.withScripts(node, this.speakList(node.children));
+    }
+    if (tokenType === TokenType.Character) {
+      const char = token.token;
+      const word = CHARACTER_WORDS[char] ?? DELIMITER_WORDS[char] ?? char;
+      return this.withScripts(node, word);
+    }
+    // spaces and anything else without a sound
+    return '';
+  }
+
+  // Consecutive letters are separate variables, read one by one.
+  speakLetters(text: string): string {
+    if (this.isDoubleStruck && NUMBER_SETS[text]) {
+      return NUMBER_SETS[text];
+    }
+    const letters = [...text].map((char) => {
+      const isCapital = char !== char.toLowerCase();
+      const name = this.isDoubleStruck ? `double-struck ${char}` : char;
+      return isCapital && this.isVerbose ? `capital ${name}` : name;
+    });
+    return letters.join(' ');
+  }
+
+  // "a over b" for simple parts, with the start and the end of the fraction
+  // announced around anything longer.
+  speakFraction([numerator, denominator]: (LatexNode | undefined)[]): string {
+    const top = this.speakList(numerator ? [numerator] : []);
+    const bottom = this.speakList(denominator ? [denominator] : []);
+    const isShort = isSimple(numerator) && isSimple(denominator);
+    if (this.isVerbose) {
+      const fraction = `the fraction with numerator ${top} and denominator ${bottom}`;
+      return isShort ? fraction : `${fraction}, end fraction`;
+    }
+    if (isShort) {
+      return `${top} over ${bottom}`;
+    }
+    return `the fraction ${top} over ${bottom}, end fraction`;
+  }
+
+  speakBinomial([top, bottom]: (LatexNode | undefined)[]): string {
+    return join([
+      this.speakList(top ? [top] : []),
+      'choose',
+      this.speakList(bottom ? [bottom] : []),
+    ]);
+  }
+
+  speakRoot(node: LatexNode): string {
+    const radicand = this.speakList(node.children);
+    const index = node.optionalArgs?.[0];
+    const indexText = index ? nodeText(index).trim() : '2';
+    let name = ROOT_WORDS[indexText];
+    if (!name) {
+      const degree = index ? this.speakList(index.children) : '';
+      name = `${ordinal(degree)} root`;
+    }
+    if (this.isVerbose || !isSimple(node.children[0])) {
+      return `the ${name} of ${radicand}, end root`;
+    }
+    return `the ${name} of ${radicand}`;
+  }
+
+  // "the sum from i equals 1 to n of" for operators with limits, and
+  // "the integral from 0 to 1 of" for integrals
+  speakBigOperator(node: LatexNode, char: string): string {
+    const name = BIG_OPERATOR_WORDS[char] ?? char;
+    const { subscript, superscript } = node;
+    if (!subscript && !superscript) {
+      return `the ${name} of`;
+    }
+    const isIntegral = integralOperators.includes(char);
+    const parts = [`the ${name}`];
+    if (subscript) {
+      const from = this.speakList(subscript.children);
+      // \int_D and \sum_{i} read "over"
+      const isRange = superscript !== undefined || isIntegral;
+      parts.push(isRange ? `from ${from}` : `over ${from}`);
+    }
+    if (superscript) {
+      parts.push(`to ${this.speakList(superscript.children)}`);
+    }
+    parts.push('of');
+    return join(parts);
+  }
+
+  speakLimit(node: LatexNode): string {
+    const { subscript, superscript } = node;
+    const parts = ['the limit'];
+    if (subscript) {
+      parts.push(`as ${this.speakList(subscript.children)}`);
+    }
+    if (superscript) {
+      parts.push(`to the ${this.speakList(superscript.children)}`);
+    }
+    parts.push('of');
+    return join(parts);
+  }
+
+  speakDelimiter(node: LatexNode | undefined): string {
+    const char = delimiterChar(node);
+    if (char === null) {
+      return '';
+    }
+    return DELIMITER_WORDS[char] ?? char;
+  }
+
+  fenced(nodes: LatexNode[], open: string, close: string): string {
+    return join([
+      DELIMITER_WORDS[open],
+      this.speakList(nodes),
+      DELIMITER_WORDS[close],
+    ]);
+  }
+
+  speakLeftRight(node: LatexNode): string {
+    const [left, ...rest] = node.children;
+    const right = rest.pop();
+    const open = this.speakDelimiter(left);
+    const close = this.speakDelimiter(right);
+    const content = this.speakList(rest);
+    if (open === 'vertical bar' && close === 'vertical bar') {
+      return this.isVerbose
+        ? `the absolute value of ${content}, end absolute value`
+        : `the absolute value of ${content}`;
+    }
+    return join([open, content, close]);
+  }
+
+  speakEnvironment(node: LatexNode): string {
+    const envName = node.token!.token;
+    const { rows } = collectRows(node);
+    const cells = rows.map((row) =>
+      row.cells.map((cell) => this.speakList(cell))
+    );
+    const count = (n: number, noun: string) =>
+      `${n} ${noun}${n === 1 ? '' : 's'}`;
+    if (envName === 'cases') {
+      const cases = cells.map((row, i) => {
+        const [value, condition] = row;
+        const text = condition ? `${value}, ${condition}` : value;
+        return this.isVerbose ? `case ${i + 1}: ${text}` : text;
+      });
+      return `${count(cases.length, 'case')}, ${cases.join('; ')}`;
+    }
+    const delimiters = MATRIX_DELIMITERS[envName];
+    if (delimiters || envName === 'array') {
+      const numOfColumns = Math.max(0, ...cells.map((row) => row.length));
+      const kind =
+        envName === 'vmatrix'
+          ? 'determinant'
+          : envName === 'array'
+          ? 'array'
+          : 'matrix';
+      const lines = cells.map((row, i) => {
+        const text = row.join(', ');
+        return this.isVerbose ? `row ${i + 1}: ${text}` : text;
+      });
+      return `the ${rows.length} by ${numOfColumns} ${kind}; ${lines.join(
+        '; '
+      )}; end ${kind}`;
+    }
+    // align and gather, a line at a time
+    const lines = cells.map((row, i) => {
+      const text = join(row);
+      return this.isVerbose && cells.length > 1
+        ? `line ${i + 1}: ${text}`
+        : text;
+    });
+    return lines.join('; ');
+  }
+
+  // "x squared", "x sub i", and "x raised to the n plus 1 power" for
+  // exponents that take more than a word
+  withScripts(node: LatexNode, base: string): string {
+    const { subscript, superscript } = node;
+    const parts = [base];
+    if (subscript) {
+      const script = this.speakList(subscript.children);
+      if (isSimpleScript(subscript)) {
+        parts.push(`sub ${script}`);
+      } else {
+        parts.push(this.isVerbose ? `sub ${script}, end sub` : `sub ${script}`);
+      }
+    }
+    if (superscript) {
+      parts.push(this.speakExponent(superscript));
+    }
+    return join(parts);
+  }
+
+  speakExponent(superscript: LatexNode): string {
+    const text = superscript.children.map(nodeText).join('').trim();
+    if (text === '\\circ') {
+      return 'degrees';
+    }
+    if (text === "'") {
+      return 'prime';
+    }
+    if (text === '2') {
+      return 'squared';
+    }
+    if (text === '3') {
+      return 'cubed';
+    }
+    const exponent = this.speakList(superscript.children);
+    if (isSimpleScript(superscript)) {
+      return `to the ${ordinal(exponent)} power`;
+    }
+    if (this.isVerbose) {
+      return `raised to the exponent, ${exponent}, end exponent`;
+    }
+    return `to the ${exponent} power`;
+  }
+}
+
+function hasScripts(node: LatexNode): boolean {
+  return node.subscript !== undefined || node.superscript !== undefined;
+}
+
+// A single number, letter or Greek letter without scripts, spoken as one
+// word that needs no announced end.
+function isSimple(node: LatexNode | undefined): boolean {
+  if (!node || hasScripts(node)) {
+    return false;
+  }
+  if (node.nodeType === NodeType.CBGroup) {
+    return node.children.length === 1 && isSimple(node.children[0]);
+  }
+  if (node.nodeType !== NodeType.Plain) {
+    return false;
+  }
+  const tokenType = node.token!.tokenType;
+  return (
+    tokenType === TokenType.Number ||
+    (tokenType === TokenType.Alphabet && node.token!.token.length === 1) ||
+    greekName(tokenType) !== null
+  );
+}
+
+function isSimpleScript(script: LatexNode): boolean {
+  return script.children.length === 1 && isSimple(script.children[0]);
+}
+
+// "alpha", "capital gamma"
+function greekName(tokenType: string): string | null {
+  if (lowercaseGreekMap[tokenType]) {
+    return tokenType.slice(1).replace(/^var/, '');
+  }
+  if (uppercaseGreekMap[tokenType]) {
+    return `capital ${tokenType.slice(1).toLowerCase()}`;
+  }
+  return null;
+}
+
+// "fourth", "21st", "n-th"
+function ordinal(text: string): string {
+  if (!/^\d+$/.test(text)) {
+    return `${text}-th`;
+  }
+  const n = parseInt(text);
+  if (n < ORDINALS.length) {
+    return ORDINALS[n];
+  }
+  const lastTwo = n % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) {
+    return `${n}th`;
+  }
+  const suffix = ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
+
+// join words, skipping the empty ones of silent nodes
+function join(words: (string | undefined)[]): string {
+  return words.filter((word) => word).join(' ');
+}
+
+// Read out a parsed document, e.g. for the alt text of a rendered image.
+export function speakLatex(
+  document: LatexNode,
+  options: Partial<SpeechOptions> = {}
+): string {
+  const opts: SpeechOptions = { ...DefaultSpeechOptions, ...options };
+  return new SpeechGenerator(opts).speakDocument(document);
+}
+
+// Convert LaTeX to speech text like "x squared plus y squared equals 1".
+export function renderLatexToSpeech(
+  latex: string,
+  options: Partial<ParseOptions & SpeechOptions> = {}
+): string {
+  const opts = { ...DefaultParseOptions, ...DefaultSpeechOptions, ...options };
+  return speakLatex(parseLatex(latex, opts), opts);
+}
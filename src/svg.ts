@@ -0,0 +1,159 @@
+import fs from 'fs';
+import { LatexNode } from './ast.ts';
+import { Box, BoxType } from './box.ts';
+import { registeredFontFiles } from './font.ts';
+import { LatexLayout, placeBox } from './layout.ts';
+import { DefaultRenderOptions, RenderOptions } from './options.ts';
+import { parseLatex } from './parser.ts';
+import { Attributes, element, escapeXml } from './xml.ts';
+
+export type SvgRenderOptions = RenderOptions & {
+  // embed the font files as data URIs so the SVG renders without KaTeX fonts
+  // being installed; otherwise glyphs only reference the font families
+  embedFonts: boolean;
+};
+
+export const DefaultSvgRenderOptions: SvgRenderOptions = {
+  ...DefaultRenderOptions,
+  embedFonts: true,
+};
+
+class SvgRenderer {
+  private elements: string[] = [];
+  private usedFonts = new Set<string>();
+
+  constructor(private options: SvgRenderOptions) {}
+
+  render(nodes: LatexNode[]): string {
+    const box = new LatexLayout(this.options).layout(nodes);
+    const placement = placeBox(box, this.options);
+    this.drawBox(box, placement.x, placement.y);
+
+    const { width, height } = placement;
+    const parts = [
+      `<svg xmlns="http://www.w3.org/2000/svg" xml:space="preserve" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    ];
+    const style = this.fontFaceStyle();
+    if (style) {
+      parts.push(`<style>${style}</style>`);
+    }
+    if (this.options.fillBackground) {
+      parts.push(
+        element('rect', {
+          width: '100%',
+          height: '100%',
+          fill: this.options.backgroundColor,
+        })
+      );
+    }
+    const color = escapeXml(this.options.foregroundColor);
+    parts.push(`<g fill="${color}" stroke="${color}" stroke-width="0">`);
+    parts.push(...this.elements);
+    parts.push('</g>', '</svg>');
+    return parts.join('\n');
+  }
+
+  drawBox(box: Box, x: number, y: number) {
+    switch (box.boxType) {
+      case BoxType.HBox: {
+        for (const child of box.children) {
+          this.drawBox(child.box, x + child.x, y + child.y);
+        }
+        break;
+      }
+      case BoxType.Glyph: {
+        this.usedFonts.add(box.fontFamily);
+        const attributes: Attributes = {
+          x: num(x),
+          y: num(y),
+          'font-family': box.fontFamily,
+          'font-size': num(box.fontSize),
+        };
+        if (box.fontStyle) {
+          attributes['font-style'] = box.fontStyle;
+        }
+        if (box.color) {
+          attributes.fill = box.color;
+        }
+        this.elements.push(element('text', attributes, box.text));
+        break;
+      }
+      case BoxType.Rule: {
+        const attributes: Attributes = {
+          x: num(x),
+          y: num(y - box.height),
+          width: num(box.width),
+          height: num(box.height + box.depth),
+        };
+        if (box.color) {
+          attributes.fill = box.color;
+        }
+        this.elements.push(element('rect', attributes));
+        break;
+      }
+      case BoxType.Path: {
+        const point = (px: number, py: number) =>
+          `${num(x + px)} ${num(y + py)}`;
+        const d = box.commands
+          .map((command) => {
+            switch (command.op) {
+              case 'Z':
+                return 'Z';
+              case 'Q':
+                return `Q${point(command.cx, command.cy)} ${point(
+                  command.x,
+                  command.y
+                )}`;
+              default:
+                return command.op + point(command.x, command.y);
+            }
+          })
+          .join(' ');
+        const attributes: Attributes = {
+          d,
+          fill: 'none',
+          'stroke-width': num(box.lineWidth),
+        };
+        if (box.color) {
+          attributes.stroke = box.color;
+        }
+        this.elements.push(element('path', attributes));
+        break;
+      }
+      case BoxType.Kern:
+        break;
+    }
+  }
+
+  fontFaceStyle(): string {
+    if (!this.options.embedFonts) {
+      return '';
+    }
+    return registeredFontFiles()
+      .filter((fontFile) => this.usedFonts.has(fontFile.family))
+      .map((fontFile) => {
+        const data = fs.readFileSync(fontFile.path).toString('base64');
+        const isOpenType = fontFile.path.endsWith('.otf');
+        const mime = isOpenType ? 'font/otf' : 'font/ttf';
+        const format = isOpenType ? 'opentype' : 'truetype';
+        const style = fontFile.style ? `font-style:${fontFile.style};` : '';
+        return `@font-face{font-family:"${fontFile.family}";${style}src:url(data:${mime};base64,${data}) format("${format}");}`;
+      })
+      .join('');
+  }
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+// Render LaTeX to a standalone SVG document. Fonts still have to be
+// registered with `initRendering` because the layout is measured with them.
+export function renderLatexToSvg(
+  latex: string,
+  options: Partial<SvgRenderOptions> = {}
+): string {
+  const opts: SvgRenderOptions = { ...DefaultSvgRenderOptions, ...options };
+  const node = parseLatex(latex, opts);
+  return new SvgRenderer(opts).render(node.children);
+}
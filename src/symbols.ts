@@ -0,0 +1,221 @@
+import { LatexNode, NodeType, TokenType } from './ast.ts';
+
+// Lowercase Greek letters are set in italic like other math variables.
+export const lowercaseGreekMap: { [key: string]: string } = {
+  [TokenType.Alpha]: 'α',
+  [TokenType.Beta]: 'β',
+  [TokenType.Gamma]: 'γ',
+  [TokenType.Delta]: 'δ',
+  [TokenType.Epsilon]: 'ϵ',
+  [TokenType.Varepsilon]: 'ε',
+  [TokenType.Zeta]: 'ζ',
+  [TokenType.Eta]: 'η',
+  [TokenType.Theta]: 'θ',
+  [TokenType.Vartheta]: 'ϑ',
+  [TokenType.Iota]: 'ι',
+  [TokenType.Kappa]: 'κ',
+  [TokenType.Lambda]: 'λ',
+  [TokenType.Mu]: 'μ',
+  [TokenType.Nu]: 'ν',
+  [TokenType.Xi]: 'ξ',
+  [TokenType.Pi]: 'π',
+  [TokenType.Varpi]: 'ϖ',
+  [TokenType.Rho]: 'ρ',
+  [TokenType.Varrho]: 'ϱ',
+  [TokenType.Sigma]: 'σ',
+  [TokenType.Varsigma]: 'ς',
+  [TokenType.Tau]: 'τ',
+  [TokenType.Upsilon]: 'υ',
+  [TokenType.Phi]: 'ϕ',
+  [TokenType.Varphi]: 'φ',
+  [TokenType.Chi]: 'χ',
+  [TokenType.Psi]: 'ψ',
+  [TokenType.Omega]: 'ω',
+};
+
+// Uppercase Greek letters are upright, as in plain TeX.
+export const uppercaseGreekMap: { [key: string]: string } = {
+  [TokenType.UpperGamma]: 'Γ',
+  [TokenType.UpperDelta]: 'Δ',
+  [TokenType.UpperTheta]: 'Θ',
+  [TokenType.UpperLambda]: 'Λ',
+  [TokenType.UpperXi]: 'Ξ',
+  [TokenType.UpperPi]: 'Π',
+  [TokenType.UpperSigma]: 'Σ',
+  [TokenType.UpperUpsilon]: 'Υ',
+  [TokenType.UpperPhi]: 'Φ',
+  [TokenType.UpperPsi]: 'Ψ',
+  [TokenType.UpperOmega]: 'Ω',
+};
+
+// Characters of operators and other symbols set in the main font.
+export const symbolMap: { [key: string]: string } = {
+  [TokenType.Percent]: '%',
+  [TokenType.Times]: '×',
+  [TokenType.Divide]: '÷',
+  [TokenType.Plus]: '+',
+  [TokenType.Minus]: '−',
+  [TokenType.PlusMinus]: '±',
+  [TokenType.Equals]: '=',
+  [TokenType.LessThan]: '<',
+  [TokenType.LessThanOrEqual]: '≤',
+  [TokenType.GreaterThan]: '>',
+  [TokenType.GreaterThanOrEqual]: '≥',
+  [TokenType.Sim]: '∼',
+  [TokenType.Simeq]: '≃',
+  [TokenType.Equivalent]: '≡',
+  [TokenType.Infinity]: '∞',
+  [TokenType.Angle]: '∠',
+  [TokenType.Triangle]: '△',
+  [TokenType.Bottom]: '⊥',
+  [TokenType.Circle]: '∘',
+  [TokenType.Ell]: 'ℓ',
+  [TokenType.Cdot]: '⋅',
+  [TokenType.Cdots]: '⋯',
+  [TokenType.Modulus]: 'mod',
+  [TokenType.Square]: '□︎',
+};
+
+// Characters of the tokens that can follow \left, \right, \middle and \big.
+export const delimiterMap: { [key: string]: string } = {
+  [TokenType.LParen]: '(',
+  [TokenType.RParen]: ')',
+  [TokenType.LBracket]: '[',
+  [TokenType.RBracket]: ']',
+  [TokenType.EscapedLBrace]: '{',
+  [TokenType.EscapedRBrace]: '}',
+  '|': '|',
+  '/': '/',
+  [TokenType.DoubleVert]: '∥',
+  [TokenType.Vert]: '|',
+  [TokenType.UpperVert]: '∥',
+  [TokenType.Lvert]: '|',
+  [TokenType.Rvert]: '|',
+  [TokenType.UpperLvert]: '∥',
+  [TokenType.UpperRvert]: '∥',
+  [TokenType.Langle]: '⟨',
+  [TokenType.Rangle]: '⟩',
+  [TokenType.Lfloor]: '⌊',
+  [TokenType.Rfloor]: '⌋',
+  [TokenType.Lceil]: '⌈',
+  [TokenType.Rceil]: '⌉',
+  [TokenType.Backslash]: '\\',
+};
+
+// The character of a delimiter, given as its node or token type, or null for
+// the empty delimiter `.` and a missing one. The delimiter arguments of
+// \genfrac are braced like `{(}`, where an empty group is no delimiter.
+export function delimiterChar(
+  delimiter: LatexNode | string | undefined
+): string | null {
+  if (typeof delimiter === 'string') {
+    return delimiter === TokenType.Period
+      ? null
+      : delimiterMap[delimiter] ?? delimiter;
+  }
+  if (delimiter?.nodeType === NodeType.CBGroup) {
+    return delimiterChar(delimiter.children[0]);
+  }
+  const token = delimiter?.token;
+  if (!token || token.tokenType === TokenType.Period) {
+    return null;
+  }
+  return delimiterMap[token.tokenType] ?? token.token;
+}
+
+// Big operators are drawn with the KaTeX_Size fonts, which have a text and a
+// display size of each of them.
+export const bigOperatorMap: { [key: string]: string } = {
+  [TokenType.Summation]: '∑',
+  [TokenType.Product]: '∏',
+  [TokenType.Coproduct]: '∐',
+  [TokenType.Integrate]: '∫',
+  [TokenType.DoubleIntegral]: '∬',
+  [TokenType.TripleIntegral]: '∭',
+  [TokenType.ContourIntegral]: '∮',
+  [TokenType.BigCup]: '⋃',
+  [TokenType.BigCap]: '⋂',
+  [TokenType.BigOplus]: '⨁',
+};
+
+// Integrals keep their limits at the side even in display style.
+export const integralOperators = '∫∬∭∮';
+
+// Accents drawn with the spacing accent glyphs of KaTeX_Main.
+export const accentMap: { [key: string]: string } = {
+  [TokenType.Hat]: 'ˆ',
+  [TokenType.Bar]: 'ˉ',
+  [TokenType.Dot]: '˙',
+  [TokenType.Ddot]: '¨',
+  [TokenType.Tilde]: '˜',
+  [TokenType.Check]: 'ˇ',
+  [TokenType.Breve]: '˘',
+  [TokenType.Acute]: 'ˊ',
+  [TokenType.Grave]: 'ˋ',
+};
+
+// How far accents move right over slanted math italic letters, in em. Taken
+// from the Computer Modern metrics.
+export const italicSkews: { [key: string]: number } = {
+  A: 0.13889,
+  B: 0.08334,
+  C: 0.08334,
+  D: 0.05556,
+  E: 0.08334,
+  F: 0.08334,
+  G: 0.08334,
+  H: 0.05556,
+  I: 0.11111,
+  J: 0.16667,
+  K: 0.05556,
+  L: 0.02778,
+  M: 0.08334,
+  N: 0.08334,
+  O: 0.08334,
+  P: 0.08334,
+  Q: 0.08334,
+  R: 0.08334,
+  S: 0.08334,
+  T: 0.08334,
+  U: 0.02778,
+  X: 0.08334,
+  Z: 0.08334,
+  c: 0.05556,
+  d: 0.16667,
+  e: 0.05556,
+  f: 0.16667,
+  g: 0.02778,
+  l: 0.08334,
+  o: 0.05556,
+  p: 0.08334,
+  q: 0.08334,
+  r: 0.05556,
+  s: 0.05556,
+  t: 0.08334,
+  u: 0.02778,
+  v: 0.02778,
+  w: 0.08334,
+  x: 0.02778,
+  y: 0.05556,
+  z: 0.05556,
+};
+
+// \big and friends select a delimiter size from 1 (\big) to 4 (\Bigg).
+export const bigDelimiterSizes: { [key: string]: number } = {
+  [TokenType.Big]: 1,
+  [TokenType.BigL]: 1,
+  [TokenType.BigR]: 1,
+  [TokenType.BigM]: 1,
+  [TokenType.UpperBig]: 2,
+  [TokenType.UpperBigL]: 2,
+  [TokenType.UpperBigR]: 2,
+  [TokenType.UpperBigM]: 2,
+  [TokenType.Bigg]: 3,
+  [TokenType.BiggL]: 3,
+  [TokenType.BiggR]: 3,
+  [TokenType.BiggM]: 3,
+  [TokenType.UpperBigg]: 4,
+  [TokenType.UpperBiggL]: 4,
+  [TokenType.UpperBiggR]: 4,
+  [TokenType.UpperBiggM]: 4,
+};
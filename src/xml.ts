@@ -0,0 +1,38 @@
+export type Attributes = { [key: string]: string };
+
+// An element with text content, or an empty element when `content` is null.
+export function element(
+  name: string,
+  attributes: Attributes,
+  content: string | null = null
+): string {
+  const attrs = serializeAttributes(attributes);
+  if (content === null) {
+    return `<${name}${attrs}/>`;
+  }
+  return `<${name}${attrs}>${escapeXml(content)}</${name}>`;
+}
+
+// An element around already serialized children.
+export function parentElement(
+  name: string,
+  attributes: Attributes,
+  children: string[]
+): string {
+  const attrs = serializeAttributes(attributes);
+  return `<${name}${attrs}>${children.join('')}</${name}>`;
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function serializeAttributes(attributes: Attributes): string {
+  return Object.entries(attributes)
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('');
+}